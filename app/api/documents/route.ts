@@ -0,0 +1,64 @@
+// app/api/documents/route.ts
+import { NextResponse } from "next/server";
+import { putDocument } from "@/lib/document-store";
+import { AppError, errorResponse } from "@/lib/errors";
+import { clientKey, rateLimit } from "@/lib/rate-limit";
+import { limits, readBody } from "@/lib/validation";
+
+export const runtime = "nodejs";
+
+// Room for the multipart boundaries and part headers around the PDF itself.
+const FORM_OVERHEAD_BYTES = 64 * 1024;
+
+const mb = (n: number) => `${(n / (1024 * 1024)).toFixed(1)} MB`;
+
+function tooLarge(maxPdfBytes: number, size?: number) {
+  const message = size
+    ? `The PDF is ${mb(size)}; the limit is ${mb(maxPdfBytes)}.`
+    : `The upload is larger than the ${mb(maxPdfBytes)} limit.`;
+  return new AppError("PAYLOAD_TOO_LARGE", message, { status: 413 });
+}
+
+export async function POST(req: Request) {
+  try {
+    // Uploads have their own budget, so extracting PDFs doesn't use up the client's explains.
+    rateLimit(`upload:${clientKey(req)}`);
+    const { maxPdfBytes } = limits();
+    // Read with a cap rather than req.formData(), which would buffer any size of body.
+    const body = await readBody(req, maxPdfBytes > 0 ? maxPdfBytes + FORM_OVERHEAD_BYTES : 0, () =>
+      tooLarge(maxPdfBytes)
+    );
+    const form = await new Response(body, { headers: { "Content-Type": req.headers.get("content-type") ?? "" } })
+      .formData()
+      .catch(() => {
+        throw new AppError("INVALID_REQUEST", "Send the PDF as multipart/form-data.");
+      });
+    const pdf = form.get("pdf");
+
+    if (!pdf || !(pdf instanceof File)) {
+      throw new AppError("INVALID_REQUEST", 'Missing PDF upload (the "pdf" field).');
+    }
+    if (maxPdfBytes > 0 && pdf.size > maxPdfBytes) throw tooLarge(maxPdfBytes, pdf.size);
+
+    const pdfBuffer = Buffer.from(await pdf.arrayBuffer());
+    if (!pdfBuffer.subarray(0, 1024).includes("%PDF-")) {
+      throw new AppError("INVALID_REQUEST", `${pdf.name || "The upload"} is not a PDF.`);
+    }
+    const { doc, cached } = await putDocument(pdfBuffer, pdf.name);
+
+    return NextResponse.json({
+      ok: true,
+      docId: doc.docId,
+      fileName: doc.fileName,
+      chars: doc.text.length,
+      pages: doc.pageStarts.length,
+      cached,
+      ocr: doc.ocr ?? null,
+      outline: doc.outline,
+      language: doc.language,
+      debug: doc.debug,
+    });
+  } catch (err: unknown) {
+    return errorResponse(err, "Upload failed.");
+  }
+}
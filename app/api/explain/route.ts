@@ -1,239 +1,113 @@
 // app/api/explain/route.ts
 import { NextResponse } from "next/server";
-import path from "path";
-import fs from "fs/promises";
-import { existsSync } from "fs";
-import os from "os";
-import { spawn } from "child_process";
-import OpenAI from "openai";
+import { isDocId } from "@/lib/document-store";
+import { AppError, errorBody, errorResponse } from "@/lib/errors";
+import { explain, MODES, parseHistory, READING_LEVELS, type ExplainRequest, type ExplainResult } from "@/lib/explain";
+import { OUTPUT_LANGUAGE_CODES } from "@/lib/language";
+import { clientKey, rateLimit } from "@/lib/rate-limit";
+import type { SummaryRange } from "@/lib/summarize";
+import { sseResponse } from "@/lib/sse";
+import { getTemplate } from "@/lib/template-store";
+import { InvalidTemplateError, validateTemplate, type TemplateInput } from "@/lib/templates";
+import { enumField, intField, limits, textField } from "@/lib/validation";
 
 export const runtime = "nodejs";
 
-type Mode = "quick" | "breakdown" | "example" | "assumptions";
-type ReadingLevel = "middle" | "high" | "college" | "expert";
+const MAX_HISTORY_CHARS = 200_000;
 
-function safeString(x: unknown) {
-  return typeof x === "string" ? x : "";
-}
+// "summarize" takes either a section (outline index, checked against the document's
+// outline by resolveRange) or a fromPage/toPage range.
+function parseRange(form: FormData): SummaryRange | undefined {
+  const section = intField(form, "section", 0);
+  if (section !== null) return { section };
 
-function normalize(s: string) {
-  return s.replace(/\s+/g, " ").trim();
+  const from = intField(form, "fromPage", 1);
+  const to = intField(form, "toPage", 1);
+  if (from === null && to === null) return undefined;
+  const range: [number, number] = [from ?? to ?? 1, to ?? from ?? 1];
+  if (range[0] > range[1]) throw new AppError("INVALID_REQUEST", `"fromPage" is after "toPage".`);
+  return { pages: range };
 }
 
-function findContext(text: string, highlightRaw: string) {
-  const highlight = normalize(highlightRaw);
-  const textNorm = text;
-  const haystack = textNorm.toLowerCase();
-  const needle = highlight.toLowerCase();
-
-  const idx = haystack.indexOf(needle);
+// A saved template by `templateId`, or one sent inline as JSON in `template`.
+async function parseTemplate(form: FormData): Promise<TemplateInput | undefined> {
+  const id = textField(form, "templateId", { max: 64 });
+  if (id) return getTemplate(id);
 
-  // If we can't find the exact highlight, just return the first chunk as "context".
-  if (idx === -1) {
-    const fallback = textNorm.slice(0, 3500);
-    return {
-      found: false,
-      context: fallback,
-    };
+  const inline = textField(form, "template", { max: 10_000 });
+  if (!inline) return undefined;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(inline);
+  } catch {
+    throw new InvalidTemplateError('"template" must be JSON with "name" and "instructions".');
   }
-
-  // Grab a window around the match
-  const windowChars = 4000;
-  const start = Math.max(0, idx - Math.floor(windowChars * 0.45));
-  const end = Math.min(textNorm.length, idx + needle.length + Math.floor(windowChars * 0.55));
-  const context = textNorm.slice(start, end);
-
-  return {
-    found: true,
-    context,
-  };
+  return validateTemplate(parsed);
 }
 
-async function runPdftotext(pdfBuffer: Buffer) {
-  // Prefer vendored poppler when deployed on Vercel (or if present locally)
-  const vendorBin = path.join(process.cwd(), "vendor", "poppler", "bin", "pdftotext");
-  const vendorLib = path.join(process.cwd(), "vendor", "poppler", "lib");
-
-  // If vendor exists, use it; otherwise fall back to PATH (brew poppler locally).
-  const useVendor = existsSync(vendorBin);
-
-  const binPath = useVendor ? vendorBin : "pdftotext";
-
-  // Write to temp
-  const tmpDir = os.tmpdir();
-  const inputPath = path.join(tmpDir, `pdfex-${crypto.randomUUID()}.pdf`);
-  const outputPath = path.join(tmpDir, `pdfex-${crypto.randomUUID()}.txt`);
-
-  await fs.writeFile(inputPath, pdfBuffer);
+function parseRequest(form: FormData, template: TemplateInput | undefined): ExplainRequest {
+  const { maxHighlightChars } = limits();
 
-  // Make sure executable bit is set (sometimes tar extraction can lose it)
-  if (useVendor) {
-    try {
-      // @ts-ignore
-      const { chmod } = await import("fs/promises");
-      await chmod(vendorBin, 0o755);
-    } catch {
-      // ignore
-    }
-  }
-
-  const env = {
-    ...process.env,
-    // Ensure our vendored binaries are discoverable (not strictly required if we spawn by full path)
-    PATH: useVendor ? `${path.dirname(vendorBin)}:${process.env.PATH || ""}` : process.env.PATH || "",
-    // CRITICAL: let Linux dynamic loader find libpoppler.so.* and friends
-    LD_LIBRARY_PATH: useVendor
-      ? `${vendorLib}:${process.env.LD_LIBRARY_PATH || ""}`
-      : process.env.LD_LIBRARY_PATH || "",
-  };
-
-  const result = await new Promise<{ code: number | null; stdout: string; stderr: string }>((resolve) => {
-    const child = spawn(binPath, ["-layout", inputPath, outputPath], {
-      env,
-      stdio: ["ignore", "pipe", "pipe"],
-    });
+  const docId = textField(form, "docId", { required: true });
+  if (!isDocId(docId)) throw new AppError("INVALID_REQUEST", '"docId" must be an id returned by /api/documents.');
 
-    let stdout = "";
-    let stderr = "";
-
-    child.stdout.on("data", (d) => (stdout += d.toString()));
-    child.stderr.on("data", (d) => (stderr += d.toString()));
-    child.on("close", (code) => resolve({ code, stdout, stderr }));
-    child.on("error", (err) => resolve({ code: -1, stdout: "", stderr: String(err) }));
-  });
-
-  if (result.code !== 0) {
-    throw new Error(
-      `pdftotext failed (code ${result.code}): ${result.stderr || result.stdout || "unknown error"}`
+  const mode = template ? "custom" : enumField(form, "mode", MODES, "breakdown");
+  const highlight = textField(form, "highlight");
+  if (!highlight.trim() && mode !== "summarize") throw new AppError("INVALID_REQUEST", "Missing highlighted text.");
+  if (maxHighlightChars > 0 && highlight.length > maxHighlightChars) {
+    throw new AppError(
+      "HIGHLIGHT_TOO_LONG",
+      `The highlight is ${highlight.length} characters; the limit is ${maxHighlightChars}. Select a shorter passage.`,
+      { status: 413 }
     );
   }
-
-  const text = await fs.readFile(outputPath, "utf8");
-
-  // Cleanup best-effort
-  void fs.unlink(inputPath).catch(() => {});
-  void fs.unlink(outputPath).catch(() => {});
+  if (mode === "custom" && !template) {
+    throw new AppError("INVALID_REQUEST", 'Mode "custom" needs a templateId or template.');
+  }
 
   return {
-    text,
-    debug: {
-      useVendor,
-      binPath: useVendor ? vendorBin : "pdftotext (PATH)",
-      vendorLibExists: useVendor ? existsSync(vendorLib) : false,
-      libHint: useVendor ? vendorLib : "(system)",
-      platform: process.platform,
-      arch: process.arch,
-    },
+    docId,
+    highlight,
+    mode,
+    readingLevel: enumField(form, "readingLevel", READING_LEVELS, "high"),
+    language: enumField(form, "language", OUTPUT_LANGUAGE_CODES, "en"),
+    pageHint: intField(form, "page", 1),
+    provider: textField(form, "provider", { max: 32 }) || undefined,
+    question: textField(form, "question", { max: maxHighlightChars || undefined }).trim() || undefined,
+    history: parseHistory(textField(form, "history", { max: MAX_HISTORY_CHARS })),
+    range: parseRange(form),
+    template,
   };
 }
 
-function buildInstructions(mode: Mode) {
-  switch (mode) {
-    case "quick":
-      return `Explain the highlight in 2–4 sentences, notice any key terms, and connect it to the nearby context.`;
-    case "breakdown":
-      return `Explain in a structured way:
-- Main claim (1 line)
-- Key phrases decoded (bullets)
-- Reference resolution: what “this/it/they/which” refers to (if present)
-- Why it matters in context (1–2 lines)`;
-    case "example":
-      return `Explain it, then give ONE short example or analogy that matches the context.`;
-    case "assumptions":
-      return `Explain it and explicitly list assumptions you had to make because context may be missing.`;
-    default:
-      return `Explain clearly using only the provided context.`;
-  }
-}
-
-function mapReadingLevel(level: ReadingLevel) {
-  switch (level) {
-    case "middle":
-      return "Write at a middle school reading level. Be simple and clear.";
-    case "high":
-      return "Write at a high school reading level. Clear, but not childish.";
-    case "college":
-      return "Write at a college reading level. More precise, but still readable.";
-    case "expert":
-      return "Write at an expert level. Use precise terminology, concise.";
-    default:
-      return "Write clearly.";
-  }
-}
-
 export async function POST(req: Request) {
   try {
-    const form = await req.formData();
+    rateLimit(clientKey(req));
 
-    const pdf = form.get("pdf");
-    const highlight = safeString(form.get("highlight"));
-    const mode = (safeString(form.get("mode")) as Mode) || "breakdown";
-    const readingLevel = (safeString(form.get("readingLevel")) as ReadingLevel) || "high";
-
-    if (!pdf || !(pdf instanceof File)) {
-      return NextResponse.json({ error: "Missing PDF upload." }, { status: 400 });
-    }
-    if (!highlight.trim()) {
-      return NextResponse.json({ error: "Missing highlighted text." }, { status: 400 });
+    const form = await req.formData().catch(() => {
+      throw new AppError("INVALID_REQUEST", "Send the fields as multipart/form-data.");
+    });
+    const input = parseRequest(form, await parseTemplate(form));
+    const stream = enumField(form, "stream", ["0", "1"], "0") === "1";
+
+    if (stream) {
+      return sseResponse(async (send, signal) => {
+        for await (const ev of explain({ ...input, signal })) {
+          if (ev.type === "stage") send("stage", { stage: ev.stage, progress: ev.progress });
+          else if (ev.type === "delta") send("delta", { text: ev.text });
+          else send("done", ev.result);
+        }
+      }, (err) => errorBody(err, "Explanation failed."));
     }
 
-    const pdfBuffer = Buffer.from(await pdf.arrayBuffer());
-
-    const { text, debug } = await runPdftotext(pdfBuffer);
-
-    const { found, context } = findContext(text, highlight);
-
-    const instructions = buildInstructions(mode);
-    const level = mapReadingLevel(readingLevel);
-
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      // Dev-friendly fallback if key isn't set
-      return NextResponse.json({
-        ok: true,
-        output:
-          `FAKE AI OUTPUT (no OPENAI_API_KEY set)\n\n` +
-          `MODE: ${mode}\nFOUND HIGHLIGHT: ${found}\n\nHIGHLIGHT:\n${highlight}\n\nINSTRUCTIONS:\n${instructions}\n\nCONTEXT:\n${context.slice(0, 3500)}`,
-        debug,
-      });
+    let result: ExplainResult | null = null;
+    for await (const ev of explain({ ...input, signal: req.signal })) {
+      if (ev.type === "done") result = ev.result;
     }
+    if (!result) throw new Error("Explanation ended without a result.");
 
-    const client = new OpenAI({ apiKey });
-
-    const system = `You are a careful study assistant.
-Rules:
-- Use ONLY the provided context. If insufficient, say what’s missing.
-- Do not hallucinate facts outside the context.
-- Keep it helpful and readable.
-- ${level}`;
-
-    const user = `HIGHLIGHT:\n${highlight}\n\nMODE INSTRUCTIONS:\n${instructions}\n\nCONTEXT (from PDF near the highlight):\n${context}`;
-
-    const resp = await client.chat.completions.create({
-      model: process.env.OPENAI_MODEL || "gpt-4.1-mini",
-      temperature: 0.3,
-      messages: [
-        { role: "system", content: system },
-        { role: "user", content: user },
-      ],
-    });
-
-    const output = resp.choices?.[0]?.message?.content?.trim() || "No output.";
-
-    return NextResponse.json({
-      ok: true,
-      output,
-      foundHighlight: found,
-      debug,
-    });
-  } catch (err: any) {
-    const msg = err?.message || String(err);
-    return NextResponse.json(
-      {
-        error: "PDF extraction failed",
-        details: msg,
-      },
-      { status: 500 }
-    );
+    return NextResponse.json({ ok: true, ...result });
+  } catch (err: unknown) {
+    return errorResponse(err, "Explanation failed.");
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,82 @@
+// app/api/study/route.ts
+import { NextResponse } from "next/server";
+import { isDocId } from "@/lib/document-store";
+import { AppError, errorResponse } from "@/lib/errors";
+import { READING_LEVELS } from "@/lib/explain";
+import { OUTPUT_LANGUAGE_CODES } from "@/lib/language";
+import { clientKey, rateLimit } from "@/lib/rate-limit";
+import {
+  CARD_KINDS,
+  generateStudySet,
+  MAX_STUDY_CARDS,
+  parseStudyItems,
+  type CardKind,
+  type StudyRequest,
+} from "@/lib/study";
+import { enumField, intField, limits, textField } from "@/lib/validation";
+
+export const runtime = "nodejs";
+
+const MAX_ITEMS_CHARS = 200_000;
+
+// "kinds" is a comma-separated subset of CARD_KINDS; all of them when absent.
+function parseKinds(form: FormData): CardKind[] {
+  const raw = textField(form, "kinds", { max: 64 });
+  if (!raw) return CARD_KINDS;
+  const kinds = raw.split(",").map((k) => k.trim());
+  const unknown = kinds.filter((k) => !(CARD_KINDS as string[]).includes(k));
+  if (unknown.length > 0) {
+    throw new AppError(
+      "INVALID_REQUEST",
+      `"kinds" must be a list of ${CARD_KINDS.join(", ")} (got "${unknown.join(", ")}").`
+    );
+  }
+  return [...new Set(kinds as CardKind[])];
+}
+
+function parseRequest(form: FormData): Omit<StudyRequest, "signal"> {
+  const { maxHighlightChars } = limits();
+
+  const docId = textField(form, "docId", { required: true });
+  if (!isDocId(docId)) throw new AppError("INVALID_REQUEST", '"docId" must be an id returned by /api/documents.');
+
+  const items = parseStudyItems(textField(form, "items", { max: MAX_ITEMS_CHARS }));
+  if (items.length === 0) throw new AppError("INVALID_REQUEST", "No highlights to make cards from.");
+  const tooLong = items.find((item) => maxHighlightChars > 0 && item.highlight.length > maxHighlightChars);
+  if (tooLong) {
+    throw new AppError(
+      "HIGHLIGHT_TOO_LONG",
+      `A highlight is ${tooLong.highlight.length} characters; the limit is ${maxHighlightChars}.`,
+      { status: 413 }
+    );
+  }
+
+  const count = intField(form, "count", 1) ?? 10;
+  if (count > MAX_STUDY_CARDS) throw new AppError("INVALID_REQUEST", `"count" must be at most ${MAX_STUDY_CARDS}.`);
+
+  return {
+    docId,
+    items,
+    kinds: parseKinds(form),
+    count,
+    readingLevel: enumField(form, "readingLevel", READING_LEVELS, "high"),
+    language: enumField(form, "language", OUTPUT_LANGUAGE_CODES, "en"),
+    provider: textField(form, "provider", { max: 32 }) || undefined,
+  };
+}
+
+export async function POST(req: Request) {
+  try {
+    // Shares the per-client budget with /api/explain: both call the LLM.
+    rateLimit(clientKey(req));
+
+    const form = await req.formData().catch(() => {
+      throw new AppError("INVALID_REQUEST", "Send the fields as multipart/form-data.");
+    });
+    const { cards, debug } = await generateStudySet({ ...parseRequest(form), signal: req.signal });
+
+    return NextResponse.json({ ok: true, cards, debug });
+  } catch (err: unknown) {
+    return errorResponse(err, "Card generation failed.");
+  }
+}
@@ -0,0 +1,37 @@
+// app/api/templates/[id]/route.ts
+import { NextResponse } from "next/server";
+import { errorResponse } from "@/lib/errors";
+import { deleteTemplate, getTemplate, updateTemplate } from "@/lib/template-store";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(_req: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    return NextResponse.json({ ok: true, template: await getTemplate(id) });
+  } catch (err: unknown) {
+    return errorResponse(err, "Template storage failed.");
+  }
+}
+
+export async function PUT(req: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    const template = await updateTemplate(id, await req.json().catch(() => null));
+    return NextResponse.json({ ok: true, template });
+  } catch (err: unknown) {
+    return errorResponse(err, "Template storage failed.");
+  }
+}
+
+export async function DELETE(_req: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    await deleteTemplate(id);
+    return NextResponse.json({ ok: true });
+  } catch (err: unknown) {
+    return errorResponse(err, "Template storage failed.");
+  }
+}
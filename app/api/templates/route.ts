@@ -0,0 +1,23 @@
+// app/api/templates/route.ts
+import { NextResponse } from "next/server";
+import { errorResponse } from "@/lib/errors";
+import { createTemplate, listTemplates } from "@/lib/template-store";
+
+export const runtime = "nodejs";
+
+export async function GET() {
+  try {
+    return NextResponse.json({ ok: true, templates: await listTemplates() });
+  } catch (err: unknown) {
+    return errorResponse(err, "Template storage failed.");
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const template = await createTemplate(await req.json().catch(() => null));
+    return NextResponse.json({ ok: true, template }, { status: 201 });
+  } catch (err: unknown) {
+    return errorResponse(err, "Template storage failed.");
+  }
+}
@@ -0,0 +1,17 @@
+// app/api/threads/[id]/messages/route.ts
+import { NextResponse } from "next/server";
+import { errorResponse } from "@/lib/errors";
+import { appendMessage, readThreadBody } from "@/lib/thread-store";
+
+export const runtime = "nodejs";
+
+/** Append a message to a thread, or replace the one with the same id. */
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const thread = await appendMessage(id, await readThreadBody(req));
+    return NextResponse.json({ ok: true, thread });
+  } catch (err: unknown) {
+    return errorResponse(err, "Thread storage failed.");
+  }
+}
@@ -0,0 +1,37 @@
+// app/api/threads/[id]/route.ts
+import { NextResponse } from "next/server";
+import { errorResponse } from "@/lib/errors";
+import { deleteThread, getThread, putThread, readThreadBody } from "@/lib/thread-store";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(_req: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    return NextResponse.json({ ok: true, thread: await getThread(id) });
+  } catch (err: unknown) {
+    return errorResponse(err, "Thread storage failed.");
+  }
+}
+
+export async function PUT(req: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    const thread = await putThread(id, await readThreadBody(req));
+    return NextResponse.json({ ok: true, thread });
+  } catch (err: unknown) {
+    return errorResponse(err, "Thread storage failed.");
+  }
+}
+
+export async function DELETE(_req: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    await deleteThread(id);
+    return NextResponse.json({ ok: true });
+  } catch (err: unknown) {
+    return errorResponse(err, "Thread storage failed.");
+  }
+}
@@ -0,0 +1,23 @@
+// app/api/threads/route.ts
+import { NextResponse } from "next/server";
+import { errorResponse } from "@/lib/errors";
+import { createThread, listThreads, readThreadBody } from "@/lib/thread-store";
+
+export const runtime = "nodejs";
+
+export async function GET() {
+  try {
+    return NextResponse.json({ ok: true, threads: await listThreads() });
+  } catch (err: unknown) {
+    return errorResponse(err, "Thread storage failed.");
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const thread = await createThread(await readThreadBody(req));
+    return NextResponse.json({ ok: true, thread }, { status: 201 });
+  } catch (err: unknown) {
+    return errorResponse(err, "Thread storage failed.");
+  }
+}
@@ -0,0 +1,79 @@
+"use client";
+
+import { BookOpen, Link2, Lightbulb, Target } from "lucide-react";
+import type { Breakdown } from "@/lib/breakdown";
+import Markdown from "./markdown";
+
+function Card({ icon, title, children }: { icon: React.ReactNode; title: string; children: React.ReactNode }) {
+  return (
+    <div className="rounded-2xl border border-border/70 bg-muted/10 px-4 py-3">
+      <div className="mb-2 inline-flex items-center gap-2 text-[11px] font-semibold uppercase tracking-wide text-muted-foreground">
+        {icon}
+        {title}
+      </div>
+      {children}
+    </div>
+  );
+}
+
+/** A "breakdown" answer: the claim, a glossary of key phrases, and what its references point to. */
+export default function BreakdownCards({ breakdown }: { breakdown: Breakdown }) {
+  const { claim, phrases, references, whyItMatters, pages } = breakdown;
+
+  return (
+    <div className="space-y-3">
+      <Card icon={<Target className="h-3.5 w-3.5" />} title="Main claim">
+        <div className="text-[15px] font-medium">
+          <Markdown>{claim}</Markdown>
+        </div>
+      </Card>
+
+      {phrases.length > 0 && (
+        <Card icon={<BookOpen className="h-3.5 w-3.5" />} title="Key phrases">
+          <table className="w-full text-sm">
+            <tbody>
+              {phrases.map((p, i) => (
+                <tr key={i} className="border-t border-border/50 first:border-t-0 align-top">
+                  <td className="w-[32%] py-1.5 pr-4 font-medium">
+                    <Markdown>{p.phrase}</Markdown>
+                  </td>
+                  <td className="py-1.5 text-muted-foreground">
+                    <Markdown>{p.meaning}</Markdown>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </Card>
+      )}
+
+      {references.length > 0 && (
+        <Card icon={<Link2 className="h-3.5 w-3.5" />} title="References">
+          <ul className="space-y-1.5 text-sm">
+            {references.map((r, i) => (
+              <li key={i} className="flex items-start gap-2">
+                <span className="shrink-0 rounded-md border border-border/70 bg-card/60 px-1.5 py-0.5 text-xs font-medium">
+                  {r.term}
+                </span>
+                <span className="min-w-0 flex-1">
+                  <Markdown>{r.refersTo}</Markdown>
+                </span>
+                {r.page && <span className="shrink-0 text-[11px] text-muted-foreground">p. {r.page}</span>}
+              </li>
+            ))}
+          </ul>
+        </Card>
+      )}
+
+      {whyItMatters && (
+        <Card icon={<Lightbulb className="h-3.5 w-3.5" />} title="Why it matters">
+          <Markdown>{whyItMatters}</Markdown>
+        </Card>
+      )}
+
+      {pages.length > 0 && (
+        <div className="text-[11px] text-muted-foreground">Based on p. {pages.join(", ")}</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,10 @@
+// Save a generated file (exports) through a temporary object URL.
+export function download(name: string, type: string, body: string) {
+  const url = URL.createObjectURL(new Blob([body], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  a.click();
+  // Some browsers start the download after click() returns; revoking now can cancel it.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,53 @@
+"use client";
+
+import { AlertTriangle, Loader2, RotateCcw } from "lucide-react";
+import { errorInfo } from "@/lib/errors";
+import type { AnswerVersion } from "@/lib/threads";
+
+type MessageError = NonNullable<AnswerVersion["error"]>;
+
+/**
+ * A failed answer: what went wrong, what to do about it, and a Retry button that asks
+ * the same question again. `disabled` says why retrying isn't possible right now.
+ */
+export default function ErrorNotice({
+  error,
+  onRetry,
+  retrying,
+  disabled,
+}: {
+  error: MessageError;
+  onRetry: () => void;
+  retrying: boolean;
+  disabled?: string;
+}) {
+  const info = errorInfo(error.code);
+
+  return (
+    <div className="rounded-2xl border border-amber-500/30 bg-amber-500/10 px-4 py-3 text-sm">
+      <div className="flex items-start gap-3">
+        <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-amber-300" />
+        <div className="min-w-0 flex-1 space-y-1.5">
+          <div className="font-semibold text-amber-200">{info.title}</div>
+          <div className="text-card-foreground">{info.hint}</div>
+          {error.details && (
+            <div className="break-words text-xs text-muted-foreground" title={error.code}>
+              {error.details}
+            </div>
+          )}
+        </div>
+        {info.retry && (
+          <button
+            onClick={onRetry}
+            disabled={retrying || !!disabled}
+            title={disabled || "Send the same request again"}
+            className="inline-flex shrink-0 items-center gap-1.5 rounded-lg border border-border/70 bg-card/60 px-3 py-1.5 text-xs font-semibold hover:bg-muted/20 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {retrying ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <RotateCcw className="h-3.5 w-3.5" />}
+            Retry
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Download } from "lucide-react";
+import type { ExportFormat } from "./thread-export";
+
+const FORMATS: Array<[ExportFormat, string]> = [
+  ["md", "Markdown"],
+  ["html", "HTML"],
+  ["pdf", "PDF (print)"],
+];
+
+export default function ExportMenu({
+  canExportThread,
+  onExport,
+}: {
+  canExportThread: boolean;
+  onExport: (scope: "thread" | "all", format: ExportFormat) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const ref = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (e: MouseEvent) => {
+      if (!ref.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener("mousedown", close);
+    return () => document.removeEventListener("mousedown", close);
+  }, [open]);
+
+  return (
+    <div ref={ref} className="relative">
+      <button
+        onClick={() => setOpen((v) => !v)}
+        className="inline-flex items-center gap-2 rounded-2xl border border-border/70 bg-card/45 px-3 py-2.5 text-sm text-muted-foreground hover:bg-muted/20"
+        title="Export notes"
+      >
+        <Download className="h-4 w-4" />
+        Export
+      </button>
+
+      {open && (
+        <div className="absolute right-0 z-20 mt-2 w-56 rounded-2xl border border-border/70 bg-card/95 p-2 text-sm shadow-2xl backdrop-blur-xl">
+          {(
+            [
+              ["thread", "This thread"],
+              ["all", "All threads"],
+            ] as const
+          ).map(([scope, label]) => (
+            <div key={scope} className="py-1">
+              <div className="px-2 pb-1 text-[11px] font-semibold text-muted-foreground">{label}</div>
+              {FORMATS.map(([format, name]) => (
+                <button
+                  key={format}
+                  disabled={scope === "thread" && !canExportThread}
+                  onClick={() => {
+                    setOpen(false);
+                    onExport(scope, format);
+                  }}
+                  className="block w-full rounded-lg px-2 py-1.5 text-left hover:bg-muted/20 disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  {name}
+                </button>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
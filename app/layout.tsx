@@ -1,5 +1,6 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import "katex/dist/katex.min.css";
 import "./globals.css";
 import MouseGlow from "./mouse-glow";
 import { Analytics } from "@vercel/analytics/react";
@@ -0,0 +1,192 @@
+// Browser persistence: threads and the PDFs they were made from, in IndexedDB. PDFs are
+// keyed by their SHA-256, which is also the server's docId, so the same file is stored
+// once however many threads use it. Falls back to localStorage (threads only) where
+// IndexedDB isn't available.
+import { migrateThread, type Thread } from "@/lib/threads";
+
+const DB_NAME = "pdf-explainer";
+const DB_VERSION = 1;
+
+// Where threads lived before IndexedDB; migrated on first load.
+const LEGACY_KEY = "pdf-explain-threads-v5";
+
+export type StoredPdf = {
+  hash: string;
+  name: string;
+  size: number;
+  type: string;
+  lastModified: number;
+  addedAt: number;
+  lastUsed: number;
+  blob: Blob;
+};
+
+export type PdfInfo = Omit<StoredPdf, "blob">;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function request<T>(req: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function done(tx: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function openDb() {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available."));
+      return;
+    }
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains("threads")) db.createObjectStore("threads", { keyPath: "id" });
+      if (!db.objectStoreNames.contains("pdfs")) db.createObjectStore("pdfs", { keyPath: "hash" });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+  // Let a later call try again (e.g. after the user allows storage).
+  dbPromise.catch(() => (dbPromise = null));
+  return dbPromise;
+}
+
+export async function hashFile(file: Blob) {
+  const digest = await crypto.subtle.digest("SHA-256", await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// ---- threads ----
+
+// What was last written, so saves only touch threads whose object changed.
+let saved = new Map<string, Thread>();
+
+function readLegacyThreads(): Thread[] {
+  try {
+    const raw = localStorage.getItem(LEGACY_KEY);
+    return raw ? (JSON.parse(raw) as Thread[]).map(migrateThread) : [];
+  } catch {
+    return [];
+  }
+}
+
+/** All threads, newest first. Moves threads over from localStorage the first time. */
+export async function loadThreads(): Promise<Thread[]> {
+  let db: IDBDatabase;
+  try {
+    db = await openDb();
+  } catch {
+    return readLegacyThreads();
+  }
+
+  let threads = await request(db.transaction("threads").objectStore("threads").getAll() as IDBRequest<Thread[]>);
+  if (threads.length === 0) {
+    const legacy = readLegacyThreads();
+    if (legacy.length > 0) {
+      const tx = db.transaction("threads", "readwrite");
+      for (const t of legacy) tx.objectStore("threads").put(t);
+      await done(tx);
+      localStorage.removeItem(LEGACY_KEY);
+      threads = legacy;
+    }
+  }
+
+  saved = new Map(threads.map((t) => [t.id, t]));
+  // Migrated threads are new objects, so the next save writes them back in the new shape.
+  return threads.map(migrateThread).sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function saveThreads(threads: Thread[]) {
+  let db: IDBDatabase;
+  try {
+    db = await openDb();
+  } catch {
+    try {
+      localStorage.setItem(LEGACY_KEY, JSON.stringify(threads));
+    } catch {}
+    return;
+  }
+
+  const tx = db.transaction("threads", "readwrite");
+  const store = tx.objectStore("threads");
+  const next = new Map(threads.map((t) => [t.id, t]));
+  for (const t of threads) if (saved.get(t.id) !== t) store.put(t);
+  for (const id of saved.keys()) if (!next.has(id)) store.delete(id);
+  saved = next;
+  await done(tx);
+}
+
+// ---- PDFs ----
+
+/** Store `file` (once per content hash) and return the hash. */
+export async function putPdf(file: File): Promise<string> {
+  const hash = await hashFile(file);
+  const db = await openDb();
+
+  const tx = db.transaction("pdfs", "readwrite");
+  const store = tx.objectStore("pdfs");
+  const existing = (await request(store.get(hash))) as StoredPdf | undefined;
+  const now = Date.now();
+  store.put(
+    existing
+      ? { ...existing, lastUsed: now }
+      : {
+          hash,
+          name: file.name,
+          size: file.size,
+          type: file.type || "application/pdf",
+          lastModified: file.lastModified,
+          addedAt: now,
+          lastUsed: now,
+          blob: file,
+        }
+  );
+  await done(tx);
+  return hash;
+}
+
+/** The stored PDF as a File again, or null if it was evicted (or never stored). */
+export async function getPdf(hash: string): Promise<File | null> {
+  const db = await openDb();
+  const tx = db.transaction("pdfs", "readwrite");
+  const store = tx.objectStore("pdfs");
+  const pdf = (await request(store.get(hash))) as StoredPdf | undefined;
+  if (!pdf) return null;
+  store.put({ ...pdf, lastUsed: Date.now() });
+  await done(tx);
+  return new File([pdf.blob], pdf.name, { type: pdf.type, lastModified: pdf.lastModified });
+}
+
+export async function listPdfs(): Promise<PdfInfo[]> {
+  const db = await openDb();
+  const all = (await request(db.transaction("pdfs").objectStore("pdfs").getAll())) as StoredPdf[];
+  return all
+    .map((pdf) => {
+      const info: Partial<StoredPdf> = { ...pdf };
+      delete info.blob;
+      return info as PdfInfo;
+    })
+    .sort((a, b) => b.lastUsed - a.lastUsed);
+}
+
+export async function deletePdfs(hashes: string[]) {
+  const db = await openDb();
+  const tx = db.transaction("pdfs", "readwrite");
+  for (const h of hashes) tx.objectStore("pdfs").delete(h);
+  await done(tx);
+}
+
+/** Origin-wide usage and quota as the browser reports them (both 0 when unknown). */
+export async function storageEstimate() {
+  const est = await navigator.storage?.estimate?.().catch(() => null);
+  return { usage: est?.usage ?? 0, quota: est?.quota ?? 0 };
+}
@@ -0,0 +1,38 @@
+"use client";
+
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import rehypeKatex from "rehype-katex";
+
+// Models mix LaTeX delimiters; remark-math only understands $…$ and $$…$$.
+function normalizeMath(src: string) {
+  return src
+    .replace(/\\\[([\s\S]+?)\\\]/g, (_, tex) => `\n$$\n${tex.trim()}\n$$\n`)
+    .replace(/\\\(([\s\S]+?)\\\)/g, (_, tex) => `$${tex.trim()}$`);
+}
+
+export default function Markdown({ children }: { children: string }) {
+  return (
+    <div className="prose prose-sm prose-invert max-w-none leading-relaxed prose-pre:bg-muted/30 prose-table:text-xs">
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, [remarkMath, { singleDollarTextMath: true }]]}
+        rehypePlugins={[[rehypeKatex, { throwOnError: false, strict: false }]]}
+        components={{
+          a: ({ href, children }) => (
+            <a href={href} target="_blank" rel="noreferrer">
+              {children}
+            </a>
+          ),
+          table: ({ children }) => (
+            <div className="overflow-x-auto">
+              <table>{children}</table>
+            </div>
+          ),
+        }}
+      >
+        {normalizeMath(children)}
+      </ReactMarkdown>
+    </div>
+  );
+}
@@ -12,39 +12,43 @@ import {
   History,
   Settings2,
   PanelLeft,
+  ChevronLeft,
   ChevronRight,
+  MessageCircle,
+  ListTree,
+  Square,
 } from "lucide-react";
-
-type Mode = "quick" | "breakdown" | "example" | "assumptions";
-type ReadingLevel = "middle" | "high" | "college" | "expert";
-
-type ChatMessage =
-  | {
-      role: "user";
-      id: string;
-      createdAt: number;
-      fileName: string;
-      highlight: string;
-      mode: Mode;
-      readingLevel: ReadingLevel;
-    }
-  | {
-      role: "assistant";
-      id: string;
-      createdAt: number;
-      output: string;
-    };
-
-type Thread = {
-  id: string;
-  createdAt: number;
-  title: string;
-  fileName?: string;
-  messages: ChatMessage[];
-};
-
-const STORAGE_KEY = "pdf-explain-threads-v5";
-const MAX_THREADS = 30;
+import PdfViewer, { type PdfSelection } from "./pdf-viewer";
+import Markdown from "./markdown";
+import BreakdownCards from "./breakdown-cards";
+import StudyPanel from "./study-panel";
+import ExportMenu from "./export-menu";
+import { exportThreads } from "./thread-export";
+import StoragePanel from "./storage-panel";
+import TemplateEditor from "./template-editor";
+import ErrorNotice from "./error-notice";
+import RegenerateMenu from "./regenerate-menu";
+import { getPdf, loadThreads, putPdf, saveThreads } from "./local-store";
+import { pullThreads, pushThreads, watchSyncRejection, type SyncRejection } from "./thread-sync";
+import { formatPages, type PageRange } from "@/lib/pages";
+import type { Outline, OutlineEntry } from "@/lib/outline";
+import { OUTPUT_LANGUAGES, type DetectedLanguage, type OutputLanguage } from "@/lib/language";
+import { languageLabel, LEVEL_LABELS, MODE_LABELS, modeLabel } from "@/lib/thread-export";
+import type { CardKind, StudyItem } from "@/lib/study";
+import type { OcrPage } from "@/lib/extract/types";
+import type { Breakdown } from "@/lib/breakdown";
+import { AppError, errorInfo, fromErrorBody, responseError, toAppError } from "@/lib/errors";
+import { BUILTIN_TEMPLATES, type PromptTemplate } from "@/lib/templates";
+import {
+  activeVersion,
+  type AnswerVersion,
+  type AssistantMessage,
+  type ChatMessage,
+  type Mode,
+  type ReadingLevel,
+  type Thread,
+} from "@/lib/threads";
+import { readSse } from "@/lib/sse";
 
 function cx(...classes: Array<string | false | null | undefined>) {
   return classes.filter(Boolean).join(" ");
@@ -63,9 +67,7 @@ function makeTitle(fileName?: string, highlight?: string) {
 }
 
 function computeWideLevel(messages: ChatMessage[]) {
-  const total = messages
-    .filter((m) => m.role === "assistant")
-    .reduce((acc, m) => acc + ((m as any).output?.length || 0), 0);
+  const total = messages.reduce((acc, m) => acc + (m.role === "assistant" ? activeVersion(m).output.length : 0), 0);
 
   if (total < 900) return 0;
   if (total < 2400) return 1;
@@ -83,47 +85,215 @@ function humanKB(bytes: number) {
   return `${Math.round(bytes / 1024)} KB`;
 }
 
+async function uploadDocument(
+  file: File
+): Promise<{ docId: string; outline: Outline; language: DetectedLanguage | null }> {
+  const form = new FormData();
+  form.append("pdf", file);
+
+  const res = await fetch("/api/documents", { method: "POST", body: form });
+  if (!res.ok) throw await responseError(res);
+  const data = await res.json().catch(() => null);
+  if (!data?.docId) throw new AppError("INTERNAL", "The upload response has no docId.");
+  return {
+    docId: data.docId as string,
+    outline: data.outline as Outline,
+    language: (data.language as DetectedLanguage) ?? null,
+  };
+}
+
+type DocStatus = "idle" | "uploading" | "ready" | "error";
+
+// Payloads of the stage / delta / done / error events from /api/explain (stream=1).
+type ExplainStreamData = {
+  stage?: string;
+  text?: string;
+  output?: string;
+  progress?: { done: number; total: number };
+  pages?: { match: PageRange | null; context: PageRange };
+  ocr?: { pages: OcrPage[] } | null;
+  summary?: { label: string } | null;
+  breakdown?: Breakdown | null;
+};
+
+const STAGE_LABELS: Record<string, string> = {
+  extracting: "Reading document…",
+  locating: "Locating highlight…",
+  summarizing: "Summarizing…",
+  generating: "Generating explanation…",
+};
+
+// Where a streamed answer goes: one version of one assistant message.
+type AnswerTarget = { id: string; version: number };
+type AnswerMeta = Partial<Pick<AnswerVersion, "pages" | "ocr" | "breakdown" | "error" | "stopped">>;
+
+function pendingAssistant(): AssistantMessage {
+  const now = Date.now();
+  return {
+    role: "assistant",
+    id: crypto.randomUUID(),
+    createdAt: now,
+    versions: [{ createdAt: now, output: STAGE_LABELS.extracting }],
+    active: 0,
+  };
+}
+
+// The user message a request at `index` is about: that message itself, or for a
+// follow-up the highlight it follows.
+function requestSource(msgs: ChatMessage[], index: number) {
+  const m = msgs[index];
+  if (m?.role === "user") return { msg: m, index };
+  if (m?.role !== "followup") return null;
+  for (let i = index - 1; i >= 0; i--) {
+    const prev = msgs[i];
+    if (prev.role === "user" && prev.mode !== "summarize") return { msg: prev, index: i };
+  }
+  return null;
+}
+
+// Form fields (besides docId) that ask the user or follow-up message at `index`, so a
+// failed answer can be retried with exactly what was asked. Follow-ups use the current
+// reading level and language, as they always have.
+function requestFields(
+  msgs: ChatMessage[],
+  index: number,
+  current: { readingLevel: ReadingLevel; language: OutputLanguage }
+): Record<string, string> | null {
+  const source = requestSource(msgs, index);
+  if (!source) return null;
+  const { msg } = source;
+
+  const fields: Record<string, string> = {
+    mode: msg.mode,
+    readingLevel: msg.readingLevel,
+    language: msg.language ?? "en",
+  };
+  if (msg.mode === "summarize") return { ...fields, ...msg.range };
+  fields.highlight = msg.highlight;
+  if (msg.page) fields.page = String(msg.page);
+  // Sent inline, as asked: editing the template later doesn't change this thread.
+  if (msg.template) fields.template = JSON.stringify(msg.template);
+
+  const m = msgs[index];
+  if (m.role !== "followup") return fields;
+
+  // Everything said since the highlight, so "it" / "simpler please" has a referent;
+  // failed answers and the questions they failed on are left out.
+  const turns = msgs.slice(source.index + 1, index);
+  const failed = (t: ChatMessage | undefined) => t?.role === "assistant" && !!activeVersion(t).error;
+  const history = turns.flatMap((t, i) => {
+    if (t.role === "followup" && !failed(turns[i + 1])) return [{ role: "user", content: t.question }];
+    return t.role === "assistant" && !failed(t) ? [{ role: "assistant", content: activeVersion(t).output }] : [];
+  });
+  return { ...fields, ...current, question: m.question, history: JSON.stringify(history) };
+}
+
+// A regenerated answer may have been asked for in another mode or at another level.
+function withOverrides(fields: Record<string, string>, version: Pick<AnswerVersion, "mode" | "readingLevel">) {
+  const out = { ...fields };
+  if (version.readingLevel) out.readingLevel = version.readingLevel;
+  if (version.mode) {
+    out.mode = version.mode;
+    delete out.template;
+  }
+  return out;
+}
+
 export default function Page() {
   const [threads, setThreads] = useState<Thread[]>([]);
   const [activeId, setActiveId] = useState<string>("");
   const [sidebarOpen, setSidebarOpen] = useState<boolean>(true);
 
   const [file, setFile] = useState<File | null>(null);
+  const [docStatus, setDocStatus] = useState<DocStatus>("idle");
+  const [docError, setDocError] = useState<AppError | null>(null);
   const [highlight, setHighlight] = useState("");
+  const [highlightPage, setHighlightPage] = useState<number | null>(null);
+  const [outline, setOutline] = useState<OutlineEntry[]>([]);
+  // Page the viewer should scroll to; `seq` makes a repeated click on the same entry count.
+  const [jumpTo, setJumpTo] = useState<{ page: number; seq: number } | null>(null);
+  // Summarize mode: "all", "pages" (fromPage..toPage) or "section:<outline index>".
+  const [summaryScope, setSummaryScope] = useState("all");
+  const [fromPage, setFromPage] = useState("");
+  const [toPage, setToPage] = useState("");
+  const [question, setQuestion] = useState("");
   const [mode, setMode] = useState<Mode>("breakdown");
+  // User-defined modes; `templateId` is the one picked when mode is "custom".
+  const [templates, setTemplates] = useState<PromptTemplate[]>(BUILTIN_TEMPLATES);
+  const [templateId, setTemplateId] = useState<string | null>(null);
+  const [templatesOpen, setTemplatesOpen] = useState(false);
   const [readingLevel, setReadingLevel] = useState<ReadingLevel>("high");
+  const [language, setLanguage] = useState<OutputLanguage>("en");
+  // What the server detected the current PDF to be written in.
+  const [docLanguage, setDocLanguage] = useState<DetectedLanguage | null>(null);
   const [loading, setLoading] = useState(false);
+  const [study, setStudy] = useState<{ threadId: string; loading: boolean; error: string } | null>(null);
 
   const scrollRef = useRef<HTMLDivElement | null>(null);
+  // Upload of the current file, shared by every explain call on it.
+  const docRef = useRef<{ file: File; docId: Promise<string> } | null>(null);
+  // The current file's copy in browser storage (its hash; null if it couldn't be stored).
+  const pdfRef = useRef<{ file: File; hash: Promise<string | null> } | null>(null);
+  // The request being streamed, so Stop can cancel it.
+  const abortRef = useRef<AbortController | null>(null);
+  // Nothing is saved until the stored threads have been read back.
+  const [hydrated, setHydrated] = useState(false);
+  const [syncRejection, setSyncRejection] = useState<SyncRejection | null>(null);
+
+  useEffect(() => watchSyncRejection(setSyncRejection), []);
 
   useEffect(() => {
-    try {
-      const raw = localStorage.getItem(STORAGE_KEY);
-      if (raw) {
-        const parsed = JSON.parse(raw) as Thread[];
-        setThreads(parsed);
-        if (parsed.length > 0) setActiveId(parsed[0].id);
-      } else {
-        const t = createNewThread();
-        setThreads([t]);
-        setActiveId(t.id);
-      }
-    } catch {
-      const t = createNewThread();
-      setThreads([t]);
-      setActiveId(t.id);
-    }
+    let cancelled = false;
+    loadThreads()
+      .catch(() => [] as Thread[])
+      .then((stored) => {
+        if (cancelled) return;
+        if (stored.length > 0) {
+          setThreads(stored);
+          setActiveId(stored[0].id);
+          void reattachPdf(stored[0]);
+        } else {
+          const t = createNewThread();
+          setThreads([t]);
+          setActiveId(t.id);
+        }
+        setHydrated(true);
+
+        // Then bring in whatever changed on the server since (other devices).
+        pullThreads(stored)
+          .then(({ updated, removed }) => {
+            if (cancelled || (updated.length === 0 && removed.length === 0)) return;
+            setThreads((prev) => {
+              const byId = new Map(prev.filter((t) => !removed.includes(t.id)).map((t) => [t.id, t]));
+              for (const t of updated) {
+                const mine = byId.get(t.id);
+                if (!mine || (mine.updatedAt ?? mine.createdAt) < (t.updatedAt ?? t.createdAt)) byId.set(t.id, t);
+              }
+              return [...byId.values()].sort((a, b) => b.createdAt - a.createdAt);
+            });
+          })
+          .catch(() => {});
+      });
+    return () => {
+      cancelled = true;
+    };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
   useEffect(() => {
-    try {
-      localStorage.setItem(
-        STORAGE_KEY,
-        JSON.stringify(threads.slice(0, MAX_THREADS))
-      );
-    } catch {}
-  }, [threads]);
+    fetch("/api/templates")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => Array.isArray(data?.templates) && setTemplates(data.templates))
+      .catch(() => {});
+  }, []);
+
+  const activeTemplate = mode === "custom" ? templates.find((t) => t.id === templateId) : undefined;
+
+  useEffect(() => {
+    if (!hydrated) return;
+    void saveThreads(threads).catch(() => {});
+    pushThreads(threads);
+  }, [threads, hydrated]);
 
   const activeThread = useMemo(
     () => threads.find((t) => t.id === activeId) || null,
@@ -141,12 +311,113 @@ export default function Page() {
     return "max-w-[1320px]";
   }, [wideLevel]);
 
+  // Follow-ups are about the latest highlight in the thread (summaries have none).
+  const anchor = useMemo(() => {
+    const msgs = activeThread?.messages || [];
+    for (let i = msgs.length - 1; i >= 0; i--) {
+      const m = msgs[i];
+      if (m.role === "user" && m.mode !== "summarize") return { msg: m, index: i };
+    }
+    return null;
+  }, [activeThread]);
+  const canFollowUp = !!anchor && !!file && file.name === anchor.msg.fileName;
+
+  // Why the answer at `index` can't be retried or regenerated right now, if it can't.
+  function answerBlocker(index: number) {
+    const source = requestSource(activeThread?.messages || [], index - 1);
+    if (!source) return "The question this answers is gone.";
+    if (file?.name !== source.msg.fileName) return `Choose ${source.msg.fileName} to ask again.`;
+    if (loading) return "Wait for the current answer, or stop it.";
+    return undefined;
+  }
+
+  // Each highlight with the first explanation it got, as material for review cards.
+  const studyItems = useMemo(() => {
+    const msgs = activeThread?.messages || [];
+    const items: StudyItem[] = [];
+    msgs.forEach((m, i) => {
+      if (m.role !== "user" || m.mode === "summarize") return;
+      const reply = msgs.slice(i + 1).find((n) => n.role !== "followup");
+      items.push({
+        highlight: m.highlight,
+        page: m.page,
+        explanation: reply?.role === "assistant" && !activeVersion(reply).error ? activeVersion(reply).output : undefined,
+      });
+    });
+    return items;
+  }, [activeThread]);
+  const studyFileName = activeThread?.fileName;
+  const canStudy = !!file && file.name === studyFileName;
+
   const highlightWordCount = useMemo(
     () => highlight.trim().split(/\s+/).filter(Boolean).length,
     [highlight]
   );
   const highlightTooShort = highlight.trim() !== "" && highlightWordCount < 3;
 
+  function ensureDocument(f: File, force = false) {
+    if (!force && docRef.current?.file === f) return docRef.current.docId;
+
+    const upload = uploadDocument(f);
+    const docId = upload.then((d) => d.docId);
+    docRef.current = { file: f, docId };
+    setDocStatus("uploading");
+    upload.then(
+      (d) => {
+        if (docRef.current?.file !== f) return;
+        setDocStatus("ready");
+        setOutline(d.outline?.entries ?? []);
+        setDocLanguage(d.language);
+      },
+      (e: unknown) => {
+        if (docRef.current?.file !== f) return;
+        setDocStatus("error");
+        setDocError(toAppError(e));
+      }
+    );
+    return docId;
+  }
+
+  function storedPdfHash(f: File) {
+    if (pdfRef.current?.file !== f) {
+      pdfRef.current = { file: f, hash: putPdf(f).catch(() => null) };
+    }
+    return pdfRef.current.hash;
+  }
+
+  /** Load the thread's PDF back from browser storage unless it's already open. */
+  async function reattachPdf(t: Thread) {
+    if (!t.pdfHash) return;
+    const current = file ? await storedPdfHash(file) : null;
+    if (current === t.pdfHash) return;
+
+    const stored = await getPdf(t.pdfHash).catch(() => null);
+    if (!stored) return;
+    pdfRef.current = { file: stored, hash: Promise.resolve(t.pdfHash) };
+    selectFile(stored);
+  }
+
+  function openThread(t: Thread) {
+    setActiveId(t.id);
+    void reattachPdf(t);
+  }
+
+  function selectFile(f: File | null) {
+    setFile(f);
+    setHighlightPage(null);
+    setOutline([]);
+    setDocLanguage(null);
+    setJumpTo(null);
+    setSummaryScope("all");
+    docRef.current = null;
+    setDocStatus("idle");
+    // Upload right away so extraction is done by the time the first highlight is picked.
+    if (f) {
+      void ensureDocument(f).catch(() => {});
+      void storedPdfHash(f);
+    }
+  }
+
   function createNewThread(): Thread {
     return {
       id: crypto.randomUUID(),
@@ -158,10 +429,11 @@ export default function Page() {
 
   function newThread() {
     const t = createNewThread();
-    setThreads((prev) => [t, ...prev].slice(0, MAX_THREADS));
+    setThreads((prev) => [t, ...prev]);
     setActiveId(t.id);
-    setFile(null);
+    selectFile(null);
     setHighlight("");
+    setQuestion("");
     setLoading(false);
     requestAnimationFrame(() => scrollRef.current?.scrollTo({ top: 0 }));
   }
@@ -170,7 +442,7 @@ export default function Page() {
     setThreads((prev) => prev.filter((t) => t.id !== id));
     if (activeId === id) {
       const next = threads.find((t) => t.id !== id);
-      if (next) setActiveId(next.id);
+      if (next) openThread(next);
       else {
         const t = createNewThread();
         setThreads([t]);
@@ -183,103 +455,362 @@ export default function Page() {
     const t = createNewThread();
     setThreads([t]);
     setActiveId(t.id);
-    setFile(null);
+    selectFile(null);
     setHighlight("");
+    setQuestion("");
     setLoading(false);
   }
 
   function pushMessageToActive(msg: ChatMessage) {
+    if (msg.role === "user" && file) {
+      // Remember which stored PDF the thread is about, for reattaching it later.
+      const threadId = activeId;
+      void storedPdfHash(file).then((hash) => {
+        if (!hash) return;
+        setThreads((prev) =>
+          prev.map((t) =>
+            t.id === threadId && t.pdfHash !== hash ? { ...t, pdfHash: hash, updatedAt: Date.now() } : t
+          )
+        );
+      });
+    }
+
     setThreads((prev) =>
       prev.map((t) => {
         if (t.id !== activeId) return t;
-        const updated = { ...t, messages: [...t.messages, msg] };
+        const updated = { ...t, messages: [...t.messages, msg], updatedAt: Date.now() };
         if (msg.role === "user") {
           updated.fileName = msg.fileName;
-          updated.title = makeTitle(msg.fileName, msg.highlight);
+          updated.title = makeTitle(msg.fileName, msg.scope ? `Summary of ${msg.scope}` : msg.highlight);
         }
         return updated;
       })
     );
   }
 
-  function replaceAssistantMessage(assistantId: string, out: string) {
+  function updateAssistantMessage(assistantId: string, update: (m: AssistantMessage) => AssistantMessage) {
     setThreads((prev) =>
       prev.map((t) => {
         if (t.id !== activeId) return t;
         return {
           ...t,
-          messages: t.messages.map((m) =>
-            m.role === "assistant" && m.id === assistantId
-              ? { ...m, output: out }
-              : m
-          ),
+          updatedAt: Date.now(),
+          messages: t.messages.map((m) => (m.role === "assistant" && m.id === assistantId ? update(m) : m)),
         };
       })
     );
   }
 
+  // Sets one version's answer; the mode / level it was asked with stay.
+  function replaceAssistantMessage(target: AnswerTarget, out: string, meta?: AnswerMeta) {
+    updateAssistantMessage(target.id, (m) => ({
+      ...m,
+      versions: m.versions.map((v, i) =>
+        i === target.version
+          ? { createdAt: v.createdAt, mode: v.mode, readingLevel: v.readingLevel, output: out, ...meta }
+          : v
+      ),
+    }));
+  }
+
+  // Shown as an ErrorNotice; `output` keeps a plain version for history and exports.
+  function failAssistantMessage(target: AnswerTarget, e: unknown) {
+    const err = toAppError(e);
+    replaceAssistantMessage(target, `**${err.title}** ${err.message}`, {
+      error: { code: err.code, details: err.message, retryAfter: err.retryAfter },
+    });
+  }
+
   useEffect(() => {
     const el = scrollRef.current;
     if (!el) return;
     el.scrollTo({ top: el.scrollHeight, behavior: "smooth" });
   }, [activeThread?.messages.length]);
 
-  async function handleExplain() {
-    if (!file || !highlight.trim() || !activeThread) return;
+  function handlePdfSelect(sel: PdfSelection) {
+    setHighlight(sel.text);
+    setHighlightPage(sel.page);
+  }
+
+  // Streams /api/explain into an assistant bubble. `fields` are the form fields besides
+  // docId. Stop (abortRef) cancels the request; what arrived until then is kept.
+  async function streamAssistant(f: File, target: AnswerTarget, fields: Record<string, string>) {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let out = "";
+
+    const send = async (docId: string) => {
+      const form = new FormData();
+      form.append("docId", docId);
+      form.append("stream", "1");
+      if (!fields.language) form.append("language", language);
+      for (const [k, v] of Object.entries(fields)) form.append(k, v);
+      return fetch("/api/explain", { method: "POST", body: form, signal: controller.signal });
+    };
+
+    // Returns false when the server has lost the document (so we re-upload); throws an
+    // AppError for any other failure.
+    const run = async (docId: string) => {
+      const res = await send(docId);
+      if (!res.ok) {
+        const err = await responseError(res);
+        if (err.code === "UNKNOWN_DOCUMENT") return false;
+        throw err;
+      }
+
+      let lastFlush = 0;
+      let failed = null as AppError | null;
+
+      await readSse(res, (event, payload) => {
+        const data = payload as ExplainStreamData;
+        if (event === "stage" && !out) {
+          const label = data.progress
+            ? `Summarizing part ${data.progress.done + 1} of ${data.progress.total}…`
+            : STAGE_LABELS[data.stage || ""] || "Working…";
+          replaceAssistantMessage(target, label);
+        } else if (event === "delta") {
+          out += data.text || "";
+          // Re-render at most ~20x/second; tokens arrive much faster than that.
+          if (Date.now() - lastFlush > 50) {
+            lastFlush = Date.now();
+            replaceAssistantMessage(target, out);
+          }
+        } else if (event === "done") {
+          replaceAssistantMessage(
+            target,
+            data.output || "No explanation returned.",
+            {
+              // Summaries have no match; show the pages they cover instead.
+              pages: data.pages?.match ?? (data.summary ? data.pages?.context : undefined),
+              ocr: data.ocr?.pages.length ? data.ocr.pages : undefined,
+              breakdown: data.breakdown ?? undefined,
+            }
+          );
+        } else if (event === "error") {
+          failed = fromErrorBody(payload);
+        }
+      });
+      if (failed?.code === "UNKNOWN_DOCUMENT") return false;
+      if (failed) throw failed;
+      return true;
+    };
+
+    try {
+      if (!(await run(await ensureDocument(f)))) {
+        // The server no longer has this document; upload once more and retry.
+        const retried = await run(await ensureDocument(f, true));
+        if (!retried) throw new AppError("UNKNOWN_DOCUMENT", "The server could not find the uploaded PDF.");
+      }
+    } catch (e) {
+      if (!controller.signal.aborted) throw e;
+      replaceAssistantMessage(target, out, { stopped: true });
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+    }
+  }
+
+  // Form fields and a display label for the summarize scope picked in the composer.
+  function summaryRange(): { fields: Record<string, string>; scope: string } {
+    if (summaryScope.startsWith("section:")) {
+      const index = summaryScope.slice("section:".length);
+      return { fields: { section: index }, scope: outline[Number(index)]?.title || "section" };
+    }
+    if (summaryScope === "pages" && (fromPage || toPage)) {
+      const from = fromPage || toPage;
+      const to = toPage || fromPage;
+      return { fields: { fromPage: from, toPage: to }, scope: from === to ? `p. ${from}` : `pp. ${from}–${to}` };
+    }
+    return { fields: {}, scope: "whole document" };
+  }
+
+  async function handleSummarize() {
+    if (!file || !activeThread || loading) return;
 
     setLoading(true);
 
+    const { fields: range, scope } = summaryRange();
     const userMsg: ChatMessage = {
       role: "user",
       id: crypto.randomUUID(),
       createdAt: Date.now(),
       fileName: file.name,
-      highlight: highlight.trim(),
-      mode,
+      highlight: "",
+      mode: "summarize",
       readingLevel,
+      language,
+      scope,
+      range,
     };
     pushMessageToActive(userMsg);
 
-    const assistantId = crypto.randomUUID();
-    pushMessageToActive({
-      role: "assistant",
-      id: assistantId,
-      createdAt: Date.now(),
-      output: "Generating explanation…",
-    });
+    const assistant = pendingAssistant();
+    const target = { id: assistant.id, version: 0 };
+    pushMessageToActive(assistant);
 
     try {
-      const form = new FormData();
-      form.append("pdf", file);
-      form.append("highlight", highlight);
-      form.append("mode", mode);
-      form.append("readingLevel", readingLevel);
+      await streamAssistant(file, target, requestFields([userMsg], 0, { readingLevel, language })!);
+    } catch (e: unknown) {
+      failAssistantMessage(target, e);
+    } finally {
+      setLoading(false);
+    }
+  }
 
-      const res = await fetch("/api/explain", { method: "POST", body: form });
-      const raw = await res.text();
-      let data: any;
-      try {
-        data = JSON.parse(raw);
-      } catch {
-        throw new Error("Server returned non-JSON:\n\n" + raw);
-      }
+  async function handleExplain(sel?: PdfSelection) {
+    const text = sel ? sel.text : highlight;
+    const page = sel ? sel.page : highlightPage;
+    if (!file || !text.trim() || !activeThread || loading) return;
+
+    setLoading(true);
 
-      const out = res.ok
-        ? data.output || "No explanation returned."
-        : `Error: ${data?.error || "Unknown error"}\n\n${data?.details || ""}`;
+    // Selecting text in the viewer while in summarize mode still means "explain this".
+    const explainMode = mode === "summarize" || (mode === "custom" && !activeTemplate) ? "breakdown" : mode;
+    const template =
+      explainMode === "custom" && activeTemplate
+        ? { name: activeTemplate.name, instructions: activeTemplate.instructions }
+        : undefined;
+
+    const userMsg: ChatMessage = {
+      role: "user",
+      id: crypto.randomUUID(),
+      createdAt: Date.now(),
+      fileName: file.name,
+      highlight: text.trim(),
+      page: page ?? undefined,
+      mode: explainMode,
+      readingLevel,
+      language,
+      template,
+    };
+    pushMessageToActive(userMsg);
+
+    const assistant = pendingAssistant();
+    const target = { id: assistant.id, version: 0 };
+    pushMessageToActive(assistant);
+
+    try {
+      await streamAssistant(file, target, requestFields([userMsg], 0, { readingLevel, language })!);
 
-      replaceAssistantMessage(assistantId, out);
       setHighlight("");
-    } catch (e: any) {
-      replaceAssistantMessage(
-        assistantId,
-        "Request failed: " + (e?.message || String(e))
-      );
+      setHighlightPage(null);
+    } catch (e: unknown) {
+      failAssistantMessage(target, e);
     } finally {
       setLoading(false);
     }
   }
 
+  async function handleFollowUp() {
+    const q = question.trim();
+    if (!file || !q || !activeThread || !anchor || !canFollowUp || loading) return;
+
+    setLoading(true);
+
+    const followUp: ChatMessage = {
+      role: "followup",
+      id: crypto.randomUUID(),
+      createdAt: Date.now(),
+      question: q,
+    };
+    const msgs = [...activeThread.messages, followUp];
+    pushMessageToActive(followUp);
+
+    const assistant = pendingAssistant();
+    const target = { id: assistant.id, version: 0 };
+    pushMessageToActive(assistant);
+
+    try {
+      await streamAssistant(file, target, requestFields(msgs, msgs.length - 1, { readingLevel, language })!);
+
+      setQuestion("");
+    } catch (e: unknown) {
+      failAssistantMessage(target, e);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  // Streams another answer to the question before `assistantId`: into version `version`
+  // (a retry of a failed one) or into a new version with the given mode / level.
+  async function answerAgain(
+    assistantId: string,
+    version: number | "new",
+    choice: Pick<AnswerVersion, "mode" | "readingLevel"> = {}
+  ) {
+    if (!file || !activeThread || loading) return;
+    const msgs = activeThread.messages;
+    const index = msgs.findIndex((m) => m.id === assistantId);
+    const m = msgs[index];
+    const fields = index > 0 ? requestFields(msgs, index - 1, { readingLevel, language }) : null;
+    if (!fields || m?.role !== "assistant") return;
+
+    const target = { id: assistantId, version: version === "new" ? m.versions.length : version };
+    const settings = version === "new" ? choice : { mode: m.versions[version].mode, readingLevel: m.versions[version].readingLevel };
+    const pending: AnswerVersion = { createdAt: Date.now(), output: STAGE_LABELS.extracting, ...settings };
+
+    setLoading(true);
+    updateAssistantMessage(assistantId, (a) => ({
+      ...a,
+      versions: version === "new" ? [...a.versions, pending] : a.versions.map((v, i) => (i === version ? pending : v)),
+      active: target.version,
+    }));
+    try {
+      await streamAssistant(file, target, withOverrides(fields, settings));
+    } catch (e: unknown) {
+      failAssistantMessage(target, e);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  // Regenerate: only what differs from the question is kept as an override.
+  function handleRegenerate(m: AssistantMessage, index: number, choice: { mode: Mode; readingLevel: ReadingLevel }) {
+    const source = requestSource(activeThread?.messages || [], index - 1)?.msg;
+    if (!source) return;
+    void answerAgain(m.id, "new", {
+      mode: choice.mode !== source.mode ? choice.mode : undefined,
+      readingLevel: choice.readingLevel !== source.readingLevel ? choice.readingLevel : undefined,
+    });
+  }
+
+  function showVersion(assistantId: string, active: number) {
+    updateAssistantMessage(assistantId, (m) => ({ ...m, active }));
+  }
+
+  async function handleGenerateCards(kinds: CardKind[], count: number) {
+    if (!file || !activeThread || !canStudy || study?.loading) return;
+
+    const threadId = activeThread.id;
+    setStudy({ threadId, loading: true, error: "" });
+
+    const send = async (docId: string) => {
+      const form = new FormData();
+      form.append("docId", docId);
+      form.append("items", JSON.stringify(studyItems));
+      form.append("kinds", kinds.join(","));
+      form.append("count", String(count));
+      form.append("readingLevel", readingLevel);
+      form.append("language", language);
+      return fetch("/api/study", { method: "POST", body: form });
+    };
+
+    try {
+      let res = await send(await ensureDocument(file));
+      // Same recovery as explanations: the server lost the document, so upload again.
+      if (res.status === 404) res = await send(await ensureDocument(file, true));
+
+      if (!res.ok) throw await responseError(res);
+      const data = await res.json().catch(() => null);
+      if (!Array.isArray(data?.cards)) throw new AppError("LLM_BAD_OUTPUT", "The server returned no cards.");
+
+      setThreads((prev) => prev.map((t) => (t.id === threadId ? { ...t, cards: data.cards, updatedAt: Date.now() } : t)));
+      setStudy({ threadId, loading: false, error: "" });
+    } catch (e: unknown) {
+      const err = toAppError(e);
+      setStudy({ threadId, loading: false, error: `${err.title} ${err.message}` });
+    }
+  }
+
   return (
     <div className="h-screen bg-background text-foreground relative overflow-hidden">
       {/* Background layers (requires your globals.css to define these classes) */}
@@ -367,7 +898,7 @@ export default function Page() {
               return (
                 <div key={t.id} className="group relative">
                   <button
-                    onClick={() => setActiveId(t.id)}
+                    onClick={() => openThread(t)}
                     className={cx(
                       "w-full rounded-xl px-3 py-3 text-left transition",
                       active ? "bg-muted/30" : "hover:bg-muted/20",
@@ -404,6 +935,36 @@ export default function Page() {
             })}
           </div>
 
+          {sidebarOpen && file && outline.length > 0 && (
+            <div className="max-h-[40%] overflow-auto border-t border-border/70 px-2 py-3">
+              <div className="mb-2 inline-flex items-center gap-2 px-2 text-xs font-semibold text-muted-foreground">
+                <ListTree className="h-4 w-4" />
+                Contents
+              </div>
+              {outline.map((entry, i) => (
+                <button
+                  key={i}
+                  onClick={() => setJumpTo((prev) => ({ page: entry.page, seq: (prev?.seq ?? 0) + 1 }))}
+                  className="flex w-full items-baseline justify-between gap-2 rounded-lg py-1.5 pr-2 text-left text-xs hover:bg-muted/20"
+                  style={{ paddingLeft: 8 + (Math.min(entry.level, 4) - 1) * 12 }}
+                  title={`${entry.title} (p. ${entry.page})`}
+                >
+                  <span className={cx("truncate", entry.level === 1 && "font-semibold")}>{entry.title}</span>
+                  <span className="shrink-0 text-muted-foreground">{entry.page}</span>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {sidebarOpen && syncRejection && (
+            <div className="border-t border-border/70 px-5 py-2 text-[11px] text-amber-300" title={syncRejection.error.title}>
+              Not saved on the server: “{threads.find((t) => t.id === syncRejection.threadId)?.title || "a thread"}”.{" "}
+              {syncRejection.error.message}
+            </div>
+          )}
+
+          {sidebarOpen && hydrated && <StoragePanel threads={threads} />}
+
           <div className={cx("border-t border-border/70 p-3", !sidebarOpen && "flex justify-center")}>
             <button
               onClick={() => setSidebarOpen((v) => !v)}
@@ -416,306 +977,607 @@ export default function Page() {
           </div>
         </aside>
 
-        {/* Main */}
-        <section className="flex flex-1 flex-col">
-          {/* Top bar */}
-          <div className="border-b border-border/70 bg-background/55 backdrop-blur-xl">
-            <div className={cx("mx-auto px-4 py-4 transition-all duration-300", containerMaxW)}>
-              <div className="flex items-center justify-between gap-4">
-                <div className="min-w-0">
-                  <div className="text-base font-semibold">Explain with context</div>
-                  <div className="text-xs text-muted-foreground">
-                    Paste a highlight → get a grounded explanation from nearby PDF context.
+        {/* PDF viewer beside the chat on wide screens, above it on narrow ones */}
+        <div className="flex min-w-0 flex-1 flex-col lg:flex-row">
+          {file && (
+            <section className="flex h-[45vh] shrink-0 flex-col border-b border-border/70 bg-card/30 backdrop-blur-xl lg:h-auto lg:w-[min(46vw,820px)] lg:border-b-0 lg:border-r">
+              <PdfViewer
+                key={`${file.name}:${file.size}:${file.lastModified}`}
+                file={file}
+                jumpTo={jumpTo}
+                onSelect={handlePdfSelect}
+                onExplain={handleExplain}
+              />
+            </section>
+          )}
+
+          {/* Main */}
+          <section className="flex min-h-0 min-w-0 flex-1 flex-col">
+            {/* Top bar */}
+            <div className="border-b border-border/70 bg-background/55 backdrop-blur-xl">
+              <div className={cx("mx-auto px-4 py-4 transition-all duration-300", containerMaxW)}>
+                <div className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="text-base font-semibold">Explain with context</div>
+                    <div className="text-xs text-muted-foreground">
+                      Select text in the PDF (or paste it) → get a grounded explanation from nearby context.
+                    </div>
                   </div>
-                </div>
 
-                <div className="shrink-0">
-                  {/* Wider settings pill */}
-                  <div className="inline-flex items-center gap-3 rounded-2xl border border-border/70 bg-card/45 px-4 py-2.5 min-w-[340px] justify-between">
-                    <div className="inline-flex items-center gap-2">
-                      <Settings2 className="h-4 w-4 text-muted-foreground" />
+                  <div className="shrink-0 flex items-center gap-3">
+                    <ExportMenu
+                      canExportThread={!!activeThread && activeThread.messages.length > 0}
+                      onExport={(scope, format) => {
+                        const list =
+                          scope === "all"
+                            ? threads.filter((t) => t.messages.length > 0)
+                            : activeThread
+                              ? [activeThread]
+                              : [];
+                        void exportThreads(list, format);
+                      }}
+                    />
+
+                    {/* Wider settings pill */}
+                    <div className="inline-flex items-center gap-3 rounded-2xl border border-border/70 bg-card/45 px-4 py-2.5 min-w-[340px] justify-between">
+                      <div className="inline-flex items-center gap-2">
+                        <Settings2 className="h-4 w-4 text-muted-foreground" />
+                        <select
+                          value={activeTemplate ? `template:${activeTemplate.id}` : mode}
+                          onChange={(e) => {
+                            const value = e.target.value;
+                            if (value === "manage") setTemplatesOpen(true);
+                            else if (value.startsWith("template:")) {
+                              setMode("custom");
+                              setTemplateId(value.slice("template:".length));
+                            } else setMode(value as Mode);
+                          }}
+                          className="bg-transparent text-sm focus:outline-none min-w-[140px] max-w-[200px]"
+                        >
+                          <option value="quick">Quick</option>
+                          <option value="breakdown">Breakdown</option>
+                          <option value="example">Example</option>
+                          <option value="assumptions">Assumptions</option>
+                          <option value="summarize">Summarize</option>
+                          <optgroup label="My modes">
+                            {templates.map((t) => (
+                              <option key={t.id} value={`template:${t.id}`}>
+                                {t.name}
+                              </option>
+                            ))}
+                            <option value="manage">Manage modes…</option>
+                          </optgroup>
+                        </select>
+                      </div>
+
+                      <span className="text-muted-foreground">•</span>
+
                       <select
-                        value={mode}
-                        onChange={(e) => setMode(e.target.value as Mode)}
+                        value={readingLevel}
+                        onChange={(e) => setReadingLevel(e.target.value as ReadingLevel)}
                         className="bg-transparent text-sm focus:outline-none min-w-[140px]"
                       >
-                        <option value="quick">Quick</option>
-                        <option value="breakdown">Breakdown</option>
-                        <option value="example">Example</option>
-                        <option value="assumptions">Assumptions</option>
+                        <option value="middle">Middle School</option>
+                        <option value="high">High School</option>
+                        <option value="college">College</option>
+                        <option value="expert">Expert</option>
                       </select>
-                    </div>
 
-                    <span className="text-muted-foreground">•</span>
+                      <span className="text-muted-foreground">•</span>
 
-                    <select
-                      value={readingLevel}
-                      onChange={(e) => setReadingLevel(e.target.value as ReadingLevel)}
-                      className="bg-transparent text-sm focus:outline-none min-w-[140px]"
-                    >
-                      <option value="middle">Middle School</option>
-                      <option value="high">High School</option>
-                      <option value="college">College</option>
-                      <option value="expert">Expert</option>
-                    </select>
+                      <select
+                        value={language}
+                        onChange={(e) => setLanguage(e.target.value as OutputLanguage)}
+                        className="bg-transparent text-sm focus:outline-none max-w-[150px]"
+                        title={
+                          docLanguage && docLanguage.code !== "und"
+                            ? `Answer language (this PDF looks like ${docLanguage.name})`
+                            : "Answer language"
+                        }
+                      >
+                        <option value="source">
+                          Same as PDF{docLanguage && docLanguage.code !== "und" ? ` (${docLanguage.name})` : ""}
+                        </option>
+                        {OUTPUT_LANGUAGES.map((l) => (
+                          <option key={l.code} value={l.code}>
+                            {l.native}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
                   </div>
                 </div>
               </div>
             </div>
-          </div>
 
-          {/* Chat */}
-          <div ref={scrollRef} className="flex-1 overflow-auto">
-            <div className={cx("mx-auto px-4 py-8 space-y-6 transition-all duration-300", containerMaxW)}>
-              {!activeThread || activeThread.messages.length === 0 ? (
-                <div className="mx-auto max-w-[760px]">
-                  <div className="rounded-[26px] p-[1px] bg-[linear-gradient(135deg,rgba(167,139,250,0.35),rgba(34,211,238,0.18),rgba(255,255,255,0.08))] shadow-xl">
-                    <div className="rounded-[25px] border border-border/70 bg-card/45 backdrop-blur-xl p-6">
-                      <div className="flex items-start justify-between gap-4">
-                        <div>
-                          <div className="text-sm font-semibold">Start a thread</div>
-                          <div className="mt-2 text-sm text-muted-foreground space-y-1">
-                            <div className="flex items-center gap-2">
-                              <span className="inline-flex h-5 w-5 items-center justify-center rounded-md bg-muted/30 text-[11px] font-semibold">
-                                1
-                              </span>
-                              Upload a PDF
-                            </div>
-                            <div className="flex items-center gap-2">
-                              <span className="inline-flex h-5 w-5 items-center justify-center rounded-md bg-muted/30 text-[11px] font-semibold">
-                                2
-                              </span>
-                              Paste your highlight (1–2 sentences works best)
-                            </div>
-                            <div className="flex items-center gap-2">
-                              <span className="inline-flex h-5 w-5 items-center justify-center rounded-md bg-muted/30 text-[11px] font-semibold">
-                                3
-                              </span>
-                              Click Explain
+            {/* Chat */}
+            <div ref={scrollRef} className="flex-1 overflow-auto">
+              <div className={cx("mx-auto px-4 py-8 space-y-6 transition-all duration-300", containerMaxW)}>
+                {!activeThread || activeThread.messages.length === 0 ? (
+                  <div className="mx-auto max-w-[760px]">
+                    <div className="rounded-[26px] p-[1px] bg-[linear-gradient(135deg,rgba(167,139,250,0.35),rgba(34,211,238,0.18),rgba(255,255,255,0.08))] shadow-xl">
+                      <div className="rounded-[25px] border border-border/70 bg-card/45 backdrop-blur-xl p-6">
+                        <div className="flex items-start justify-between gap-4">
+                          <div>
+                            <div className="text-sm font-semibold">Start a thread</div>
+                            <div className="mt-2 text-sm text-muted-foreground space-y-1">
+                              <div className="flex items-center gap-2">
+                                <span className="inline-flex h-5 w-5 items-center justify-center rounded-md bg-muted/30 text-[11px] font-semibold">
+                                  1
+                                </span>
+                                Upload a PDF
+                              </div>
+                              <div className="flex items-center gap-2">
+                                <span className="inline-flex h-5 w-5 items-center justify-center rounded-md bg-muted/30 text-[11px] font-semibold">
+                                  2
+                                </span>
+                                Select text in the viewer or paste it (1–2 sentences works best)
+                              </div>
+                              <div className="flex items-center gap-2">
+                                <span className="inline-flex h-5 w-5 items-center justify-center rounded-md bg-muted/30 text-[11px] font-semibold">
+                                  3
+                                </span>
+                                Click Explain
+                              </div>
                             </div>
                           </div>
-                        </div>
 
-                        <div className="hidden sm:flex items-center gap-2 rounded-xl border border-border/70 bg-muted/10 px-3 py-2 text-xs text-muted-foreground">
-                          <span className="inline-flex h-2 w-2 rounded-full bg-[rgba(167,139,250,0.8)]" />
-                          Context-aware
-                          <ChevronRight className="h-4 w-4 opacity-70" />
+                          <div className="hidden sm:flex items-center gap-2 rounded-xl border border-border/70 bg-muted/10 px-3 py-2 text-xs text-muted-foreground">
+                            <span className="inline-flex h-2 w-2 rounded-full bg-[rgba(167,139,250,0.8)]" />
+                            Context-aware
+                            <ChevronRight className="h-4 w-4 opacity-70" />
+                          </div>
                         </div>
                       </div>
                     </div>
                   </div>
-                </div>
-              ) : (
-                activeThread.messages.map((m) => {
-                  if (m.role === "user") {
-                    return (
-                      <div key={m.id} className="flex justify-end">
-                        <div className="w-full max-w-[860px]">
-                          <div className="rounded-[26px] border border-border/70 bg-user/35 backdrop-blur-xl shadow-xl overflow-hidden">
-                            <div className="px-6 py-5 space-y-3">
-                              <div className="flex items-center justify-between gap-3">
-                                <div className="text-xs text-muted-foreground">
-                                  You • {formatTime(m.createdAt)}
+                ) : (
+                  activeThread.messages.map((m, i) => {
+                    if (m.role === "user") {
+                      return (
+                        <div key={m.id} className="flex justify-end">
+                          <div className="w-full max-w-[860px]">
+                            <div className="rounded-[26px] border border-border/70 bg-user/35 backdrop-blur-xl shadow-xl overflow-hidden">
+                              <div className="px-6 py-5 space-y-3">
+                                <div className="flex items-center justify-between gap-3">
+                                  <div className="text-xs text-muted-foreground">
+                                    You • {formatTime(m.createdAt)}
+                                  </div>
+                                  <div className="text-[11px] text-muted-foreground">
+                                    {m.mode === "custom" ? modeLabel(m) : m.mode} • {m.readingLevel}
+                                    {m.language && m.language !== "en" && <> • {languageLabel(m.language)}</>}
+                                  </div>
                                 </div>
-                                <div className="text-[11px] text-muted-foreground">
-                                  {m.mode} • {m.readingLevel}
+
+                                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                                  <FileText className="h-4 w-4" />
+                                  <span className="truncate">{m.fileName}</span>
+                                  {m.page && <span className="shrink-0">• p. {m.page}</span>}
                                 </div>
-                              </div>
 
-                              <div className="flex items-center gap-2 text-xs text-muted-foreground">
-                                <FileText className="h-4 w-4" />
-                                <span className="truncate">{m.fileName}</span>
+                                {m.mode === "summarize" ? (
+                                  <div className="text-sm">Summarize {m.scope || "whole document"}</div>
+                                ) : (
+                                  <div className="text-sm whitespace-pre-wrap">{m.highlight}</div>
+                                )}
                               </div>
-
-                              <div className="text-sm whitespace-pre-wrap">{m.highlight}</div>
                             </div>
                           </div>
                         </div>
-                      </div>
-                    );
-                  }
-
-                  const len = (m.output || "").length;
-
-                  return (
-                    <div key={m.id} className="flex justify-start">
-                      <div className={cx("w-full", bubbleMaxWidth(len))}>
-                        <div className="rounded-[26px] p-[1px] bg-[radial-gradient(120%_120%_at_10%_10%,rgba(255,255,255,0.10),transparent_50%),radial-gradient(120%_120%_at_90%_20%,rgba(167,139,250,0.38),transparent_55%),radial-gradient(120%_120%_at_30%_90%,rgba(34,211,238,0.22),transparent_55%)] shadow-xl">
-                          <div className="rounded-[25px] border border-border/70 bg-card/45 backdrop-blur-xl">
-                            <div className="px-6 py-5 space-y-2">
-                              <div className="text-xs text-muted-foreground">
-                                Explainer • {formatTime(m.createdAt)}
-                              </div>
-                              <pre className="whitespace-pre-wrap text-sm leading-relaxed">
-                                {m.output}
-                              </pre>
+                      );
+                    }
+
+                    if (m.role === "followup") {
+                      return (
+                        <div key={m.id} className="flex justify-end">
+                          <div className="max-w-[640px] rounded-[22px] border border-border/70 bg-user/35 backdrop-blur-xl shadow-xl px-5 py-4 space-y-2">
+                            <div className="text-xs text-muted-foreground">
+                              You • follow-up • {formatTime(m.createdAt)}
                             </div>
+                            <div className="text-sm whitespace-pre-wrap">{m.question}</div>
                           </div>
                         </div>
-                      </div>
-                    </div>
-                  );
-                })
-              )}
-            </div>
-          </div>
+                      );
+                    }
 
-          {/* Composer */}
-          <div className="border-t border-border/70 bg-background/55 backdrop-blur-xl">
-            <div className={cx("mx-auto px-4 py-5 transition-all duration-300", containerMaxW)}>
-              <div className="rounded-[28px] p-[1px] bg-[linear-gradient(135deg,rgba(167,139,250,0.25),rgba(34,211,238,0.12),rgba(255,255,255,0.06))] shadow-2xl">
-                <div className="rounded-[27px] border border-border/70 bg-card/45 backdrop-blur-xl p-5">
-                  <div className="grid gap-4 lg:grid-cols-[380px_1fr_190px] items-stretch">
-                    {/* PDF */}
-                    <div className="flex flex-col">
-                      <label className="text-xs font-semibold text-muted-foreground flex items-center gap-2 mb-2">
-                        <Upload className="h-4 w-4" />
-                        PDF
-                      </label>
-
-                      <input
-                        id="pdf-input"
-                        type="file"
-                        accept="application/pdf"
-                        onChange={(e) => setFile(e.target.files?.[0] || null)}
-                        className="hidden"
-                      />
-
-                      <div className="flex-1">
-                        <div className="h-[56px] w-full rounded-2xl border border-input bg-card/45 px-3 flex items-center gap-3 shadow-[inset_0_1px_0_rgba(255,255,255,0.06)]">
-                          <label
-                            htmlFor="pdf-input"
-                            className={cx(
-                              "h-[42px] shrink-0 rounded-xl px-4 inline-flex items-center justify-center",
-                              "text-sm font-semibold cursor-pointer select-none",
-                              "bg-[linear-gradient(135deg,hsla(252,92%,72%,0.95),hsla(190,95%,60%,0.55))]",
-                              "text-primary-foreground hover:opacity-95"
-                            )}
-                          >
-                            Choose PDF
-                          </label>
-
-                          <div className="min-w-0 flex-1">
-                            {file ? (
-                              <div className="flex items-center justify-between gap-3">
-                                <div className="min-w-0 flex items-center gap-2">
-                                  <FileText className="h-4 w-4 text-muted-foreground" />
-                                  <span className="truncate text-sm text-card-foreground">
-                                    {file.name}
+                    const answer = activeVersion(m);
+                    const source = requestSource(activeThread.messages, i - 1)?.msg;
+                    const len = answer.output.length;
+
+                    return (
+                      <div key={m.id} className="flex justify-start">
+                        <div className={cx("w-full", bubbleMaxWidth(len))}>
+                          <div className="rounded-[26px] p-[1px] bg-[radial-gradient(120%_120%_at_10%_10%,rgba(255,255,255,0.10),transparent_50%),radial-gradient(120%_120%_at_90%_20%,rgba(167,139,250,0.38),transparent_55%),radial-gradient(120%_120%_at_30%_90%,rgba(34,211,238,0.22),transparent_55%)] shadow-xl">
+                            <div className="rounded-[25px] border border-border/70 bg-card/45 backdrop-blur-xl">
+                              <div className="px-6 py-5 space-y-2">
+                                <div className="flex items-center justify-between gap-3 text-xs text-muted-foreground">
+                                  <span className="inline-flex items-center gap-2">
+                                    Explainer • {formatTime(answer.createdAt)}
+                                    {(answer.mode || answer.readingLevel) && (
+                                      <span className="text-[11px]">
+                                        •{" "}
+                                        {[
+                                          answer.mode && MODE_LABELS[answer.mode],
+                                          answer.readingLevel && LEVEL_LABELS[answer.readingLevel],
+                                        ]
+                                          .filter(Boolean)
+                                          .join(", ")}
+                                      </span>
+                                    )}
+                                  </span>
+                                  <span className="inline-flex shrink-0 items-center gap-1.5">
+                                    {answer.ocr && (
+                                      <span
+                                        className="rounded-md border border-amber-500/30 bg-amber-500/10 px-2 py-0.5 text-[11px] text-amber-300"
+                                        title={answer.ocr
+                                          .map((p) => `p. ${p.page}: OCR confidence ${Math.round(p.confidence)}%`)
+                                          .join("\n")}
+                                      >
+                                        OCR {answer.ocr.map((p) => `p. ${p.page}`).join(", ")}
+                                      </span>
+                                    )}
+                                    {answer.pages && (
+                                      <span className="rounded-md border border-border/70 bg-muted/10 px-2 py-0.5 text-[11px]">
+                                        {formatPages(answer.pages)}
+                                      </span>
+                                    )}
+                                    {m.versions.length > 1 && (
+                                      <span className="inline-flex items-center text-[11px]">
+                                        <button
+                                          onClick={() => showVersion(m.id, m.active - 1)}
+                                          disabled={m.active === 0}
+                                          className="rounded p-0.5 hover:bg-muted/20 disabled:opacity-40"
+                                          title="Previous version"
+                                        >
+                                          <ChevronLeft className="h-3.5 w-3.5" />
+                                        </button>
+                                        {m.active + 1} / {m.versions.length}
+                                        <button
+                                          onClick={() => showVersion(m.id, m.active + 1)}
+                                          disabled={m.active === m.versions.length - 1}
+                                          className="rounded p-0.5 hover:bg-muted/20 disabled:opacity-40"
+                                          title="Next version"
+                                        >
+                                          <ChevronRight className="h-3.5 w-3.5" />
+                                        </button>
+                                      </span>
+                                    )}
                                   </span>
                                 </div>
-                                <span className="shrink-0 text-[11px] text-muted-foreground">
-                                  {humanKB(file.size)}
-                                </span>
+                                {answer.error ? (
+                                  <ErrorNotice
+                                    error={answer.error}
+                                    onRetry={() => void answerAgain(m.id, m.active)}
+                                    retrying={loading}
+                                    disabled={answerBlocker(i)}
+                                  />
+                                ) : answer.breakdown ? (
+                                  <BreakdownCards breakdown={answer.breakdown} />
+                                ) : answer.output ? (
+                                  <Markdown>{answer.output}</Markdown>
+                                ) : (
+                                  <div className="text-sm italic text-muted-foreground">Stopped before the answer started.</div>
+                                )}
+                                {source && !answer.error && (
+                                  <div className="flex items-center justify-between gap-3 pt-1 text-[11px] text-muted-foreground">
+                                    <span>{answer.stopped && answer.output && "Stopped — the answer is incomplete."}</span>
+                                    <RegenerateMenu
+                                      mode={answer.mode ?? source.mode}
+                                      modeName={source.mode === "custom" ? modeLabel(source) : undefined}
+                                      readingLevel={answer.readingLevel ?? source.readingLevel}
+                                      fixedMode={source.mode === "summarize" || activeThread.messages[i - 1]?.role === "followup"}
+                                      disabled={answerBlocker(i)}
+                                      onRegenerate={(choice) => handleRegenerate(m, i, choice)}
+                                    />
+                                  </div>
+                                )}
                               </div>
-                            ) : (
-                              <div className="text-sm text-muted-foreground/80 truncate">
-                                No file selected
-                              </div>
-                            )}
+                            </div>
                           </div>
-
-                          {file && (
-                            <button
-                              type="button"
-                              onClick={() => setFile(null)}
-                              className="h-[42px] shrink-0 rounded-xl px-3 inline-flex items-center justify-center
-                                         border border-border/70 bg-muted/10 text-muted-foreground hover:bg-muted/20"
-                              title="Remove file"
-                            >
-                              <Trash2 className="h-4 w-4" />
-                            </button>
-                          )}
                         </div>
+                      </div>
+                    );
+                  })
+                )}
+
+                {activeThread && studyItems.length > 0 && (
+                  <StudyPanel
+                    // Kind and count choices are per thread.
+                    key={activeThread.id}
+                    cards={activeThread.cards || []}
+                    fileName={studyFileName}
+                    loading={study?.threadId === activeThread.id && study.loading}
+                    error={study?.threadId === activeThread.id ? study.error : ""}
+                    disabled={canStudy ? undefined : `Choose ${studyFileName} to generate cards for this thread.`}
+                    onGenerate={handleGenerateCards}
+                  />
+                )}
+              </div>
+            </div>
 
-                        <div className="mt-2 min-h-[18px] text-[11px] text-muted-foreground flex items-center gap-2">
-                          {file ? (
-                            <span className="opacity-80">Ready to explain.</span>
-                          ) : (
-                            <span className="opacity-70">Choose a PDF to enable Explain.</span>
-                          )}
-                        </div>
+            {/* Composer */}
+            <div className="border-t border-border/70 bg-background/55 backdrop-blur-xl">
+              <div className={cx("mx-auto px-4 py-5 transition-all duration-300", containerMaxW)}>
+                <div className="rounded-[28px] p-[1px] bg-[linear-gradient(135deg,rgba(167,139,250,0.25),rgba(34,211,238,0.12),rgba(255,255,255,0.06))] shadow-2xl">
+                  <div className="rounded-[27px] border border-border/70 bg-card/45 backdrop-blur-xl p-5">
+                    {anchor && (
+                      <div className="mb-4 flex items-center gap-3">
+                        <input
+                          value={question}
+                          onChange={(e) => setQuestion(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === "Enter") {
+                              e.preventDefault();
+                              void handleFollowUp();
+                            }
+                          }}
+                          disabled={!canFollowUp}
+                          className="h-[44px] min-w-0 flex-1 rounded-2xl border border-input bg-card/45 px-4 text-sm
+                                     placeholder:text-muted-foreground focus:outline-none disabled:opacity-60"
+                          placeholder={
+                            canFollowUp
+                              ? "Ask a follow-up about the last highlight… (e.g. “simpler please”)"
+                              : `Choose ${anchor.msg.fileName} to ask follow-ups in this thread.`
+                          }
+                        />
+                        <button
+                          onClick={() => void handleFollowUp()}
+                          disabled={!canFollowUp || !question.trim() || loading}
+                          className="h-[44px] shrink-0 rounded-2xl border border-border/70 bg-muted/10 px-4 text-sm font-semibold
+                                     inline-flex items-center gap-2 hover:bg-muted/20 disabled:cursor-not-allowed disabled:opacity-50"
+                        >
+                          <MessageCircle className="h-4 w-4" />
+                          Ask
+                        </button>
                       </div>
-                    </div>
+                    )}
 
-                    {/* Highlight */}
-                    <div className="flex flex-col">
-                      <div className="flex items-center justify-between mb-2">
-                        <label className="text-xs font-semibold text-muted-foreground flex items-center gap-2">
-                          <Sparkles className="h-4 w-4" />
-                          Highlight
+                    <div className="grid gap-4 lg:grid-cols-[380px_1fr_190px] items-stretch">
+                      {/* PDF */}
+                      <div className="flex flex-col">
+                        <label className="text-xs font-semibold text-muted-foreground flex items-center gap-2 mb-2">
+                          <Upload className="h-4 w-4" />
+                          PDF
                         </label>
-                        <span className="text-[11px] text-muted-foreground">{highlightWordCount} words</span>
-                      </div>
 
-                      <div className="flex-1 rounded-2xl border border-input bg-card/45 shadow-[inset_0_1px_0_rgba(255,255,255,0.06)] overflow-hidden">
-                        <textarea
-                          value={highlight}
-                          onChange={(e) => setHighlight(e.target.value)}
-                          className="h-[56px] w-full resize-none bg-transparent px-4 py-4 text-sm
-                                     placeholder:text-muted-foreground focus:outline-none"
-                          placeholder="Paste highlighted text…"
+                        <input
+                          id="pdf-input"
+                          type="file"
+                          accept="application/pdf"
+                          onChange={(e) => {
+                            selectFile(e.target.files?.[0] || null);
+                            e.target.value = "";
+                          }}
+                          className="hidden"
                         />
-                      </div>
 
-                      <div className="mt-2 min-h-[20px]">
-                        {highlightTooShort && (
-                          <div className="flex items-center gap-2 rounded-2xl border border-amber-500/30 bg-amber-500/10 px-3 py-2 text-xs text-amber-300">
-                            <AlertCircle className="h-4 w-4" />
-                            Try 3+ words for better matching.
+                        <div className="flex-1">
+                          <div className="h-[56px] w-full rounded-2xl border border-input bg-card/45 px-3 flex items-center gap-3 shadow-[inset_0_1px_0_rgba(255,255,255,0.06)]">
+                            <label
+                              htmlFor="pdf-input"
+                              className={cx(
+                                "h-[42px] shrink-0 rounded-xl px-4 inline-flex items-center justify-center",
+                                "text-sm font-semibold cursor-pointer select-none",
+                                "bg-[linear-gradient(135deg,hsla(252,92%,72%,0.95),hsla(190,95%,60%,0.55))]",
+                                "text-primary-foreground hover:opacity-95"
+                              )}
+                            >
+                              Choose PDF
+                            </label>
+
+                            <div className="min-w-0 flex-1">
+                              {file ? (
+                                <div className="flex items-center justify-between gap-3">
+                                  <div className="min-w-0 flex items-center gap-2">
+                                    <FileText className="h-4 w-4 text-muted-foreground" />
+                                    <span className="truncate text-sm text-card-foreground">
+                                      {file.name}
+                                    </span>
+                                  </div>
+                                  <span className="shrink-0 text-[11px] text-muted-foreground">
+                                    {humanKB(file.size)}
+                                  </span>
+                                </div>
+                              ) : (
+                                <div className="text-sm text-muted-foreground/80 truncate">
+                                  No file selected
+                                </div>
+                              )}
+                            </div>
+
+                            {file && (
+                              <button
+                                type="button"
+                                onClick={() => selectFile(null)}
+                                className="h-[42px] shrink-0 rounded-xl px-3 inline-flex items-center justify-center
+                                           border border-border/70 bg-muted/10 text-muted-foreground hover:bg-muted/20"
+                                title="Remove file"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </button>
+                            )}
                           </div>
-                        )}
-                      </div>
-                    </div>
 
-                    {/* Explain */}
-                    <div className="flex flex-col">
-                      <div className="mb-2 text-xs font-semibold text-muted-foreground opacity-0 select-none">
-                        Explain
+                          <div className="mt-2 min-h-[18px] text-[11px] text-muted-foreground flex items-center gap-2">
+                            {docStatus === "uploading" ? (
+                              <span className="inline-flex items-center gap-1.5 opacity-80">
+                                <Loader2 className="h-3 w-3 animate-spin" />
+                                Uploading & extracting text…
+                              </span>
+                            ) : docStatus === "error" ? (
+                              <span className="text-amber-300" title={docError ? `${docError.title} ${docError.message}` : ""}>
+                                {docError && !errorInfo(docError.code).retry
+                                  ? docError.message
+                                  : "Upload failed — Explain will retry."}
+                              </span>
+                            ) : file ? (
+                              <span className="opacity-80">Ready to explain.</span>
+                            ) : (
+                              <span className="opacity-70">Choose a PDF to enable Explain.</span>
+                            )}
+                          </div>
+                        </div>
                       </div>
 
-                      <button
-                        onClick={handleExplain}
-                        disabled={!file || !highlight.trim() || loading}
-                        className={cx(
-                          "h-[56px] w-full rounded-2xl px-5 text-sm font-semibold text-primary-foreground",
-                          "shadow-[0_10px_30px_rgba(167,139,250,0.12)] transition",
-                          "bg-[linear-gradient(135deg,hsla(252,92%,72%,0.95),hsla(190,95%,60%,0.50))]",
-                          "hover:opacity-95 focus:outline-none focus:ring-2 focus:ring-ring",
-                          "disabled:cursor-not-allowed disabled:opacity-50"
-                        )}
-                      >
-                        {loading ? (
-                          <span className="flex items-center justify-center gap-2">
-                            <Loader2 className="h-4 w-4 animate-spin" />
-                            Explaining…
-                          </span>
-                        ) : (
-                          <span className="flex items-center justify-center gap-2">
-                            <Sparkles className="h-4 w-4" />
-                            Explain
-                          </span>
-                        )}
-                      </button>
-
-                      <div className="mt-2 min-h-[18px] text-[11px] text-muted-foreground opacity-80">
-                        {wideLevel === 0 ? "Compact view" : wideLevel === 1 ? "Reading view" : "Wide view"}
+                      {mode === "summarize" ? (
+                        /* Summary range */
+                        <div className="flex flex-col">
+                          <div className="flex items-center justify-between mb-2">
+                            <label className="text-xs font-semibold text-muted-foreground flex items-center gap-2">
+                              <ListTree className="h-4 w-4" />
+                              Summarize
+                            </label>
+                            <span className="text-[11px] text-muted-foreground">no highlight needed</span>
+                          </div>
+
+                          <div className="h-[56px] rounded-2xl border border-input bg-card/45 px-4 flex items-center gap-3 shadow-[inset_0_1px_0_rgba(255,255,255,0.06)]">
+                            <select
+                              value={summaryScope}
+                              onChange={(e) => setSummaryScope(e.target.value)}
+                              className="min-w-0 flex-1 bg-transparent text-sm focus:outline-none"
+                            >
+                              <option value="all">Whole document</option>
+                              <option value="pages">Page range…</option>
+                              {outline.map((entry, i) => (
+                                <option key={i} value={`section:${i}`}>
+                                  {"\u00a0\u00a0".repeat(Math.min(entry.level, 4) - 1)}
+                                  {entry.title}
+                                </option>
+                              ))}
+                            </select>
+                            {summaryScope === "pages" && (
+                              <span className="inline-flex shrink-0 items-center gap-2 text-xs text-muted-foreground">
+                                <input
+                                  value={fromPage}
+                                  onChange={(e) => setFromPage(e.target.value.replace(/\D/g, ""))}
+                                  inputMode="numeric"
+                                  placeholder="from"
+                                  className="w-14 rounded-lg border border-input bg-transparent px-2 py-1 text-sm focus:outline-none"
+                                />
+                                –
+                                <input
+                                  value={toPage}
+                                  onChange={(e) => setToPage(e.target.value.replace(/\D/g, ""))}
+                                  inputMode="numeric"
+                                  placeholder="to"
+                                  className="w-14 rounded-lg border border-input bg-transparent px-2 py-1 text-sm focus:outline-none"
+                                />
+                              </span>
+                            )}
+                          </div>
+
+                          <div className="mt-2 min-h-[20px] text-[11px] text-muted-foreground opacity-80">
+                            {outline.length > 0
+                              ? "Pick a section from the outline, a page range, or the whole PDF."
+                              : "Pick a page range or summarize the whole PDF."}
+                          </div>
+                        </div>
+                      ) : (
+                        /* Highlight */
+                        <div className="flex flex-col">
+                          <div className="flex items-center justify-between mb-2">
+                            <label className="text-xs font-semibold text-muted-foreground flex items-center gap-2">
+                              <Sparkles className="h-4 w-4" />
+                              Highlight
+                            </label>
+                            <span className="text-[11px] text-muted-foreground">
+                              {highlightWordCount} words
+                              {highlightPage !== null && ` • p. ${highlightPage}`}
+                            </span>
+                          </div>
+  
+                          <div className="flex-1 rounded-2xl border border-input bg-card/45 shadow-[inset_0_1px_0_rgba(255,255,255,0.06)] overflow-hidden">
+                            <textarea
+                              value={highlight}
+                              onChange={(e) => {
+                                setHighlight(e.target.value);
+                                setHighlightPage(null);
+                              }}
+                              className="h-[56px] w-full resize-none bg-transparent px-4 py-4 text-sm
+                                         placeholder:text-muted-foreground focus:outline-none"
+                              placeholder="Select text in the PDF or paste it here…"
+                            />
+                          </div>
+  
+                          <div className="mt-2 min-h-[20px]">
+                            {highlightTooShort && (
+                              <div className="flex items-center gap-2 rounded-2xl border border-amber-500/30 bg-amber-500/10 px-3 py-2 text-xs text-amber-300">
+                                <AlertCircle className="h-4 w-4" />
+                                Try 3+ words for better matching.
+                              </div>
+                            )}
+                          </div>
+                        </div>
+                      )}
+
+                      {/* Explain */}
+                      <div className="flex flex-col">
+                        <div className="mb-2 text-xs font-semibold text-muted-foreground opacity-0 select-none">
+                          Explain
+                        </div>
+
+                        <button
+                          onClick={() =>
+                            loading ? abortRef.current?.abort() : mode === "summarize" ? handleSummarize() : handleExplain()
+                          }
+                          disabled={!loading && (!file || (mode !== "summarize" && !highlight.trim()))}
+                          title={loading ? "Stop the answer; what arrived so far is kept" : undefined}
+                          className={cx(
+                            "h-[56px] w-full rounded-2xl px-5 text-sm font-semibold text-primary-foreground",
+                            "shadow-[0_10px_30px_rgba(167,139,250,0.12)] transition",
+                            "bg-[linear-gradient(135deg,hsla(252,92%,72%,0.95),hsla(190,95%,60%,0.50))]",
+                            "hover:opacity-95 focus:outline-none focus:ring-2 focus:ring-ring",
+                            "disabled:cursor-not-allowed disabled:opacity-50"
+                          )}
+                        >
+                          {loading ? (
+                            <span className="flex items-center justify-center gap-2">
+                              <Square className="h-3.5 w-3.5 fill-current" />
+                              Stop
+                            </span>
+                          ) : (
+                            <span className="flex items-center justify-center gap-2">
+                              <Sparkles className="h-4 w-4" />
+                              {mode === "summarize" ? "Summarize" : "Explain"}
+                            </span>
+                          )}
+                        </button>
+
+                        <div className="mt-2 min-h-[18px] text-[11px] text-muted-foreground opacity-80">
+                          {wideLevel === 0 ? "Compact view" : wideLevel === 1 ? "Reading view" : "Wide view"}
+                        </div>
                       </div>
                     </div>
-                  </div>
 
-                  <div className="mt-4 flex items-center justify-between text-[11px] text-muted-foreground">
-                    <span className="opacity-80">
-                      Workspace expands as threads grow • tuned for long study explanations.
-                    </span>
-                    <span className="opacity-80">Tip: highlight 1–2 sentences for best matching.</span>
+                    <div className="mt-4 flex items-center justify-between text-[11px] text-muted-foreground">
+                      <span className="opacity-80">
+                        Workspace expands as threads grow • tuned for long study explanations.
+                      </span>
+                      <span className="opacity-80">Tip: highlight 1–2 sentences for best matching.</span>
+                    </div>
                   </div>
                 </div>
               </div>
             </div>
-          </div>
-        </section>
+          </section>
+        </div>
       </div>
+
+      {templatesOpen && (
+        <TemplateEditor
+          templates={templates}
+          onChange={(next) => {
+            setTemplates(next);
+            if (mode === "custom" && !next.some((t) => t.id === templateId)) setMode("breakdown");
+          }}
+          onUse={(t) => {
+            setMode("custom");
+            setTemplateId(t.id);
+            setTemplatesOpen(false);
+          }}
+          onClose={() => setTemplatesOpen(false)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
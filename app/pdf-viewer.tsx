@@ -0,0 +1,298 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { PDFDocumentProxy, PDFPageProxy, RenderTask } from "pdfjs-dist";
+import { Loader2, Minus, Plus, Sparkles } from "lucide-react";
+
+export type PdfSelection = {
+  text: string;
+  page: number;
+};
+
+type PageSize = { width: number; height: number };
+
+type Popover = PdfSelection & { top: number; left: number };
+
+const MIN_SCALE = 0.6;
+const MAX_SCALE = 2.4;
+
+// pdf.js is browser-only and heavy, so load it on demand (and only once).
+let pdfjsPromise: Promise<typeof import("pdfjs-dist")> | null = null;
+
+function loadPdfjs() {
+  if (!pdfjsPromise) {
+    pdfjsPromise = import("pdfjs-dist").then((pdfjs) => {
+      pdfjs.GlobalWorkerOptions.workerSrc = new URL(
+        "pdfjs-dist/build/pdf.worker.min.mjs",
+        import.meta.url
+      ).toString();
+      return pdfjs;
+    });
+  }
+  return pdfjsPromise;
+}
+
+function PdfPage({
+  doc,
+  pageNumber,
+  size,
+  scale,
+}: {
+  doc: PDFDocumentProxy;
+  pageNumber: number;
+  size: PageSize;
+  scale: number;
+}) {
+  const wrapRef = useRef<HTMLDivElement | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const textRef = useRef<HTMLDivElement | null>(null);
+  const [visible, setVisible] = useState(false);
+
+  // Only render pages near the viewport; long textbooks would otherwise stall the tab.
+  useEffect(() => {
+    const el = wrapRef.current;
+    if (!el) return;
+    const io = new IntersectionObserver(
+      (entries) => setVisible(entries.some((e) => e.isIntersecting)),
+      { rootMargin: "600px 0px" }
+    );
+    io.observe(el);
+    return () => io.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    let cancelled = false;
+    let renderTask: RenderTask | null = null;
+    let textLayer: { cancel(): void } | null = null;
+
+    (async () => {
+      const pdfjs = await loadPdfjs();
+      const page: PDFPageProxy = await doc.getPage(pageNumber);
+      if (cancelled) return;
+
+      const viewport = page.getViewport({ scale });
+      const canvas = canvasRef.current;
+      const textDiv = textRef.current;
+      if (!canvas || !textDiv) return;
+
+      const ratio = window.devicePixelRatio || 1;
+      canvas.width = Math.floor(viewport.width * ratio);
+      canvas.height = Math.floor(viewport.height * ratio);
+      canvas.style.width = `${viewport.width}px`;
+      canvas.style.height = `${viewport.height}px`;
+
+      renderTask = page.render({
+        canvas,
+        viewport,
+        transform: ratio !== 1 ? [ratio, 0, 0, ratio, 0, 0] : undefined,
+      });
+
+      textDiv.replaceChildren();
+      const layer = new pdfjs.TextLayer({
+        textContentSource: page.streamTextContent(),
+        container: textDiv,
+        viewport,
+      });
+      textLayer = layer;
+
+      try {
+        await Promise.all([renderTask.promise, layer.render()]);
+      } catch {
+        // cancelled by a re-render / zoom change
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+      textLayer?.cancel();
+    };
+  }, [doc, pageNumber, scale, visible]);
+
+  return (
+    <div
+      ref={wrapRef}
+      data-page-number={pageNumber}
+      className="relative mx-auto bg-white shadow-xl"
+      style={
+        {
+          width: size.width * scale,
+          height: size.height * scale,
+          "--total-scale-factor": scale,
+          "--scale-round-x": "1px",
+          "--scale-round-y": "1px",
+        } as React.CSSProperties
+      }
+    >
+      <canvas ref={canvasRef} className="absolute inset-0" />
+      <div ref={textRef} className="textLayer" />
+      <div className="pointer-events-none absolute bottom-1 right-2 text-[10px] text-black/40">
+        {pageNumber}
+      </div>
+    </div>
+  );
+}
+
+// Keyed by file in the parent, so a new PDF always starts from fresh state.
+export default function PdfViewer({
+  file,
+  jumpTo,
+  onSelect,
+  onExplain,
+}: {
+  file: File;
+  /** Scroll to this page whenever `seq` changes (table of contents clicks). */
+  jumpTo?: { page: number; seq: number } | null;
+  onSelect: (sel: PdfSelection) => void;
+  onExplain: (sel: PdfSelection) => void;
+}) {
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+  const [doc, setDoc] = useState<PDFDocumentProxy | null>(null);
+  const [sizes, setSizes] = useState<PageSize[]>([]);
+  const [scale, setScale] = useState(1);
+  const [error, setError] = useState("");
+  const [popover, setPopover] = useState<Popover | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: PDFDocumentProxy | null = null;
+
+    (async () => {
+      try {
+        const pdfjs = await loadPdfjs();
+        const data = new Uint8Array(await file.arrayBuffer());
+        loaded = await pdfjs.getDocument({ data }).promise;
+        if (cancelled) return;
+
+        // Page sizes up front so the scroll height is right before anything renders.
+        const next: PageSize[] = [];
+        for (let i = 1; i <= loaded.numPages; i++) {
+          const page = await loaded.getPage(i);
+          const vp = page.getViewport({ scale: 1 });
+          next.push({ width: vp.width, height: vp.height });
+        }
+        if (cancelled) return;
+
+        setSizes(next);
+        setDoc(loaded);
+      } catch (e: unknown) {
+        if (!cancelled) setError(e instanceof Error ? e.message : String(e));
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      void loaded?.destroy();
+    };
+  }, [file]);
+
+  useEffect(() => {
+    if (!jumpTo || !doc) return;
+    const container = scrollRef.current;
+    const pageEl = container?.querySelector<HTMLElement>(`[data-page-number="${jumpTo.page}"]`);
+    if (container && pageEl) container.scrollTo({ top: pageEl.offsetTop - 16, behavior: "smooth" });
+  }, [jumpTo, doc]);
+
+  const handleMouseUp = useCallback(() => {
+    const sel = window.getSelection();
+    const container = scrollRef.current;
+    if (!sel || sel.isCollapsed || !container) {
+      setPopover(null);
+      return;
+    }
+
+    const text = sel.toString().replace(/\s+/g, " ").trim();
+    const anchor = sel.anchorNode;
+    const anchorEl = anchor instanceof Element ? anchor : anchor?.parentElement;
+    const pageEl = anchorEl?.closest<HTMLElement>("[data-page-number]");
+    if (!text || !pageEl || !container.contains(pageEl)) {
+      setPopover(null);
+      return;
+    }
+
+    const page = Number(pageEl.dataset.pageNumber);
+    const rect = sel.getRangeAt(0).getBoundingClientRect();
+    const box = container.getBoundingClientRect();
+
+    onSelect({ text, page });
+    setPopover({
+      text,
+      page,
+      top: rect.bottom - box.top + container.scrollTop + 8,
+      left: Math.max(8, rect.left - box.left + container.scrollLeft),
+    });
+  }, [onSelect]);
+
+  function zoom(delta: number) {
+    setScale((s) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, Math.round((s + delta) * 10) / 10)));
+    setPopover(null);
+  }
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex items-center justify-between gap-3 border-b border-border/70 px-4 py-2.5 text-xs text-muted-foreground">
+        <span className="truncate">{file.name}</span>
+        <div className="inline-flex shrink-0 items-center gap-1">
+          {doc && <span className="mr-2">{doc.numPages} pages</span>}
+          <button
+            onClick={() => zoom(-0.2)}
+            className="rounded-lg border border-border/70 bg-card/60 p-1.5 hover:bg-muted/20"
+            title="Zoom out"
+          >
+            <Minus className="h-3.5 w-3.5" />
+          </button>
+          <span className="w-10 text-center">{Math.round(scale * 100)}%</span>
+          <button
+            onClick={() => zoom(0.2)}
+            className="rounded-lg border border-border/70 bg-card/60 p-1.5 hover:bg-muted/20"
+            title="Zoom in"
+          >
+            <Plus className="h-3.5 w-3.5" />
+          </button>
+        </div>
+      </div>
+
+      <div
+        ref={scrollRef}
+        onMouseUp={handleMouseUp}
+        onScroll={() => popover && setPopover(null)}
+        className="relative flex-1 overflow-auto px-4 py-6"
+      >
+        {error ? (
+          <div className="text-sm text-amber-300">Could not open PDF: {error}</div>
+        ) : !doc ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading PDF…
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {sizes.map((size, i) => (
+              <PdfPage key={i} doc={doc} pageNumber={i + 1} size={size} scale={scale} />
+            ))}
+          </div>
+        )}
+
+        {popover && (
+          <button
+            // Keep the text selection alive while clicking.
+            onMouseDown={(e) => e.preventDefault()}
+            onMouseUp={(e) => e.stopPropagation()}
+            onClick={() => {
+              onExplain({ text: popover.text, page: popover.page });
+              setPopover(null);
+              window.getSelection()?.removeAllRanges();
+            }}
+            className="absolute z-10 inline-flex items-center gap-2 rounded-xl px-3 py-2 text-xs font-semibold text-primary-foreground shadow-xl bg-[linear-gradient(135deg,hsla(252,92%,72%,0.95),hsla(190,95%,60%,0.55))] hover:opacity-95"
+            style={{ top: popover.top, left: popover.left }}
+          >
+            <Sparkles className="h-3.5 w-3.5" />
+            Explain • p. {popover.page}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import { useState } from "react";
+import { RotateCw } from "lucide-react";
+import { LEVEL_LABELS, MODE_LABELS } from "@/lib/thread-export";
+import type { Mode, ReadingLevel } from "@/lib/threads";
+
+const MODES: Mode[] = ["quick", "breakdown", "example", "assumptions"];
+const LEVELS: ReadingLevel[] = ["middle", "high", "college", "expert"];
+
+/**
+ * Ask for another answer, optionally in another mode or at another reading level. Opens
+ * with the settings of the answer shown; `modeName` labels a mode not in the list (a
+ * custom one), and `fixedMode` hides the choice where switching makes no sense.
+ */
+export default function RegenerateMenu({
+  mode,
+  modeName,
+  readingLevel,
+  fixedMode,
+  disabled,
+  onRegenerate,
+}: {
+  mode: Mode;
+  modeName?: string;
+  readingLevel: ReadingLevel;
+  fixedMode?: boolean;
+  disabled?: string;
+  onRegenerate: (choice: { mode: Mode; readingLevel: ReadingLevel }) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [choice, setChoice] = useState({ mode, readingLevel });
+
+  function toggle() {
+    if (!open) setChoice({ mode, readingLevel });
+    setOpen(!open);
+  }
+
+  const selectClass = "w-full rounded-lg border border-border/70 bg-background/60 px-2 py-1.5 text-xs focus:outline-none";
+
+  return (
+    <div className="relative">
+      <button
+        onClick={toggle}
+        disabled={!!disabled}
+        title={disabled || "Get another answer; earlier ones are kept"}
+        className="inline-flex items-center gap-1.5 rounded-lg px-2 py-1 text-[11px] text-muted-foreground hover:bg-muted/20 disabled:cursor-not-allowed disabled:opacity-50"
+      >
+        <RotateCw className="h-3.5 w-3.5" />
+        Regenerate
+      </button>
+
+      {open && (
+        <>
+          <div className="fixed inset-0 z-40" onMouseDown={() => setOpen(false)} />
+          <div className="absolute bottom-full left-0 z-50 mb-2 w-[220px] space-y-2 rounded-xl border border-border/70 bg-card/95 p-3 shadow-2xl backdrop-blur-xl">
+            {!fixedMode && (
+              <select
+                value={choice.mode}
+                onChange={(e) => setChoice({ ...choice, mode: e.target.value as Mode })}
+                className={selectClass}
+              >
+                {!MODES.includes(mode) && <option value={mode}>{modeName || MODE_LABELS[mode] || mode}</option>}
+                {MODES.map((m) => (
+                  <option key={m} value={m}>
+                    {MODE_LABELS[m]}
+                  </option>
+                ))}
+              </select>
+            )}
+            <select
+              value={choice.readingLevel}
+              onChange={(e) => setChoice({ ...choice, readingLevel: e.target.value as ReadingLevel })}
+              className={selectClass}
+            >
+              {LEVELS.map((l) => (
+                <option key={l} value={l}>
+                  {LEVEL_LABELS[l]}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => {
+                setOpen(false);
+                onRegenerate(choice);
+              }}
+              className="w-full rounded-lg bg-primary px-3 py-1.5 text-xs font-semibold text-primary-foreground"
+            >
+              Regenerate
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+"use client";
+
+import { useState } from "react";
+import { HardDrive, Loader2, Trash2 } from "lucide-react";
+import type { Thread } from "@/lib/threads";
+import { deletePdfs, listPdfs, storageEstimate, type PdfInfo } from "./local-store";
+
+function humanBytes(bytes: number) {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
+
+/** Stored PDFs with their sizes, which threads use them, and ways to free space. */
+export default function StoragePanel({ threads }: { threads: Thread[] }) {
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [pdfs, setPdfs] = useState<PdfInfo[]>([]);
+  const [estimate, setEstimate] = useState({ usage: 0, quota: 0 });
+  const [error, setError] = useState("");
+
+  const users = new Map<string, number>();
+  for (const t of threads) if (t.pdfHash) users.set(t.pdfHash, (users.get(t.pdfHash) || 0) + 1);
+  const unused = pdfs.filter((p) => !users.has(p.hash));
+  const pdfBytes = pdfs.reduce((acc, p) => acc + p.size, 0);
+
+  async function refresh() {
+    setBusy(true);
+    try {
+      const [list, est] = await Promise.all([listPdfs(), storageEstimate()]);
+      setPdfs(list);
+      setEstimate(est);
+      setError("");
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function remove(hashes: string[]) {
+    if (hashes.length === 0) return;
+    let failed = "";
+    try {
+      await deletePdfs(hashes);
+    } catch (e: unknown) {
+      failed = `Couldn't remove: ${e instanceof Error ? e.message : String(e)}`;
+    }
+    await refresh();
+    // After refresh(), which clears the error when the list loads.
+    if (failed) setError(failed);
+  }
+
+  function toggle() {
+    if (!open) void refresh();
+    setOpen((v) => !v);
+  }
+
+  return (
+    <div className="border-t border-border/70 px-3 py-2">
+      <button
+        onClick={toggle}
+        className="inline-flex w-full items-center justify-between gap-2 rounded-lg px-2 py-1.5 text-xs text-muted-foreground hover:bg-muted/20"
+      >
+        <span className="inline-flex items-center gap-2">
+          <HardDrive className="h-4 w-4" />
+          Storage
+        </span>
+        {open && busy ? <Loader2 className="h-3 w-3 animate-spin" /> : open && <span>{humanBytes(pdfBytes)}</span>}
+      </button>
+
+      {open && (
+        <div className="mt-2 space-y-2 text-xs">
+          {estimate.quota > 0 && (
+            <div className="space-y-1 px-2">
+              <div className="h-1.5 overflow-hidden rounded-full bg-muted/30">
+                <div
+                  className="h-full bg-primary/70"
+                  style={{ width: `${Math.min(100, (estimate.usage / estimate.quota) * 100)}%` }}
+                />
+              </div>
+              <div className="text-[11px] text-muted-foreground">
+                {humanBytes(estimate.usage)} of {humanBytes(estimate.quota)} used by this site
+              </div>
+            </div>
+          )}
+
+          {error && <div className="px-2 text-amber-300">{error}</div>}
+
+          {pdfs.length === 0 ? (
+            <div className="px-2 text-muted-foreground">No PDFs stored yet.</div>
+          ) : (
+            <div className="max-h-48 space-y-1 overflow-auto">
+              {pdfs.map((p) => (
+                <div key={p.hash} className="group flex items-center justify-between gap-2 rounded-lg px-2 py-1.5 hover:bg-muted/20">
+                  <div className="min-w-0">
+                    <div className="truncate" title={p.name}>
+                      {p.name}
+                    </div>
+                    <div className="text-[11px] text-muted-foreground">
+                      {humanBytes(p.size)} •{" "}
+                      {users.get(p.hash) ? `${users.get(p.hash)} thread${users.get(p.hash) === 1 ? "" : "s"}` : "unused"}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => void remove([p.hash])}
+                    className="shrink-0 rounded-md p-1 text-muted-foreground hover:bg-muted"
+                    title="Remove from this browser (threads keep their history)"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-2 px-2">
+            <button
+              onClick={() => void remove(unused.map((p) => p.hash))}
+              disabled={unused.length === 0 || busy}
+              className="rounded-lg border border-border/70 bg-card/60 px-2 py-1 hover:bg-muted/20 disabled:opacity-50"
+            >
+              Remove unused ({unused.length})
+            </button>
+            <button
+              // pdfs is sorted by last use, newest first.
+              onClick={() => void remove(pdfs.slice(Math.ceil(pdfs.length / 2)).map((p) => p.hash))}
+              disabled={pdfs.length < 2 || busy}
+              className="rounded-lg border border-border/70 bg-card/60 px-2 py-1 hover:bg-muted/20 disabled:opacity-50"
+              title="Remove the least recently used half"
+            >
+              Remove oldest
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+"use client";
+
+import { useState } from "react";
+import { Download, GraduationCap, Loader2 } from "lucide-react";
+import { download } from "./download";
+import Markdown from "./markdown";
+import { cardText, toAnki, toJson } from "@/lib/study-export";
+import type { CardKind, StudyCard } from "@/lib/study";
+
+const KIND_LABELS: Record<CardKind, string> = {
+  mcq: "Multiple choice",
+  cloze: "Cloze",
+  qa: "Q/A",
+};
+
+function CardView({ card }: { card: StudyCard }) {
+  const [open, setOpen] = useState(false);
+
+  const { front, back } = cardText(card);
+
+  return (
+    <div className="rounded-2xl border border-border/70 bg-card/45 px-4 py-3 space-y-2">
+      <div className="flex items-center justify-between text-[11px] text-muted-foreground">
+        <span>{KIND_LABELS[card.kind]}</span>
+        {card.page && <span>p. {card.page}</span>}
+      </div>
+      <Markdown>{front}</Markdown>
+      {open ? (
+        <div className="border-t border-border/70 pt-2">
+          <Markdown>{back}</Markdown>
+        </div>
+      ) : (
+        <button onClick={() => setOpen(true)} className="text-xs text-primary hover:underline">
+          Show answer
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default function StudyPanel({
+  cards,
+  fileName,
+  loading,
+  error,
+  disabled,
+  onGenerate,
+}: {
+  cards: StudyCard[];
+  fileName?: string;
+  loading: boolean;
+  error: string;
+  /** Set when the thread's PDF isn't the one loaded (cards need its text). */
+  disabled?: string;
+  onGenerate: (kinds: CardKind[], count: number) => void;
+}) {
+  const [kinds, setKinds] = useState<CardKind[]>(["mcq", "cloze", "qa"]);
+  const [count, setCount] = useState(10);
+
+  const base = (fileName || "cards").replace(/\.pdf$/i, "");
+  const tags = ["pdf-explainer", base];
+
+  function toggle(kind: CardKind) {
+    setKinds((prev) => (prev.includes(kind) ? prev.filter((k) => k !== kind) : [...prev, kind]));
+  }
+
+  return (
+    <div className="rounded-[26px] border border-border/70 bg-card/35 backdrop-blur-xl px-6 py-5 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="inline-flex items-center gap-2 text-sm font-semibold">
+          <GraduationCap className="h-4 w-4 text-primary" />
+          Review material
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+          {(Object.keys(KIND_LABELS) as CardKind[]).map((kind) => (
+            <label key={kind} className="inline-flex items-center gap-1.5">
+              <input type="checkbox" checked={kinds.includes(kind)} onChange={() => toggle(kind)} />
+              {KIND_LABELS[kind]}
+            </label>
+          ))}
+          <select
+            value={count}
+            onChange={(e) => setCount(Number(e.target.value))}
+            className="rounded-lg border border-border/70 bg-transparent px-2 py-1 focus:outline-none"
+          >
+            {[5, 10, 20, 30].map((n) => (
+              <option key={n} value={n}>
+                {n} cards
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => onGenerate(kinds, count)}
+            disabled={loading || kinds.length === 0 || !!disabled}
+            title={disabled}
+            className="inline-flex items-center gap-2 rounded-xl border border-border/70 bg-muted/10 px-3 py-1.5 font-semibold text-foreground hover:bg-muted/20 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {loading && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+            {cards.length ? "Regenerate" : "Generate"}
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="text-xs text-amber-300 whitespace-pre-wrap">{error}</div>}
+
+      {cards.length > 0 && (
+        <>
+          <div className="grid gap-3 md:grid-cols-2">
+            {cards.map((card, i) => (
+              <CardView key={i} card={card} />
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <span className="text-muted-foreground">Export</span>
+            {(
+              [
+                ["Anki CSV", `${base}.csv`, "text/csv", () => toAnki(cards, "csv", tags)],
+                ["Anki TSV", `${base}.tsv`, "text/tab-separated-values", () => toAnki(cards, "tsv", tags)],
+                ["JSON", `${base}.cards.json`, "application/json", () => toJson(cards, { fileName, createdAt: Date.now() })],
+              ] as const
+            ).map(([label, name, type, body]) => (
+              <button
+                key={label}
+                onClick={() => download(name, type, body())}
+                className="inline-flex items-center gap-1.5 rounded-lg border border-border/70 bg-card/60 px-2.5 py-1.5 hover:bg-muted/20"
+              >
+                <Download className="h-3.5 w-3.5" />
+                {label}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
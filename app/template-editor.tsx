@@ -0,0 +1,196 @@
+"use client";
+
+import { useState } from "react";
+import { Copy, Loader2, Pencil, Plus, Trash2, X } from "lucide-react";
+import { MAX_TEMPLATE_CHARS, TEMPLATE_PLACEHOLDERS, type PromptTemplate } from "@/lib/templates";
+
+const PLACEHOLDER_HINTS: Record<(typeof TEMPLATE_PLACEHOLDERS)[number], string> = {
+  highlight: "the selected text",
+  context: "PDF text around it (then the template is the whole request)",
+  readingLevel: "e.g. “high school”",
+  section: "where it sits in the outline",
+};
+
+type Draft = { id: string | null; name: string; instructions: string };
+
+async function saveTemplate(draft: Draft): Promise<PromptTemplate> {
+  const res = await fetch(draft.id ? `/api/templates/${encodeURIComponent(draft.id)}` : "/api/templates", {
+    method: draft.id ? "PUT" : "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ name: draft.name, instructions: draft.instructions }),
+  });
+  const data = await res.json().catch(() => null);
+  if (!res.ok || !data?.template) throw new Error(data?.details || data?.error || "Saving the template failed.");
+  return data.template as PromptTemplate;
+}
+
+/** Create, edit and delete the user's own modes. */
+export default function TemplateEditor({
+  templates,
+  onChange,
+  onUse,
+  onClose,
+}: {
+  templates: PromptTemplate[];
+  onChange: (templates: PromptTemplate[]) => void;
+  onUse: (template: PromptTemplate) => void;
+  onClose: () => void;
+}) {
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  function edit(next: Draft | null) {
+    setDraft(next);
+    setError("");
+  }
+
+  function insert(name: string) {
+    if (!draft) return;
+    edit({ ...draft, instructions: `${draft.instructions}{{${name}}}` });
+  }
+
+  async function save() {
+    if (!draft) return;
+    setBusy(true);
+    try {
+      const saved = await saveTemplate(draft);
+      onChange(draft.id ? templates.map((t) => (t.id === saved.id ? saved : t)) : [...templates, saved]);
+      setDraft(null);
+      setError("");
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function remove(t: PromptTemplate) {
+    if (!confirm(`Delete the mode “${t.name}”?`)) return;
+    const res = await fetch(`/api/templates/${encodeURIComponent(t.id)}`, { method: "DELETE" }).catch(() => null);
+    if (res?.ok || res?.status === 404) onChange(templates.filter((x) => x.id !== t.id));
+    else setError("Deleting the template failed.");
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onMouseDown={onClose}>
+      <div
+        className="flex max-h-[85vh] w-full max-w-[680px] flex-col rounded-[26px] border border-border/70 bg-card/95 shadow-2xl backdrop-blur-xl"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between border-b border-border/70 px-6 py-4">
+          <div className="text-sm font-semibold">My modes</div>
+          <button onClick={onClose} className="rounded-md p-1 text-muted-foreground hover:bg-muted" title="Close">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 space-y-4 overflow-auto px-6 py-4 text-sm">
+          {error && <div className="rounded-xl border border-amber-500/30 bg-amber-500/10 px-3 py-2 text-amber-300">{error}</div>}
+
+          {draft ? (
+            <div className="space-y-3">
+              <input
+                value={draft.name}
+                onChange={(e) => edit({ ...draft, name: e.target.value })}
+                placeholder="Name, e.g. Explain like a lawyer"
+                className="w-full rounded-xl border border-border/70 bg-background/40 px-3 py-2 focus:outline-none"
+              />
+              <textarea
+                value={draft.instructions}
+                onChange={(e) => edit({ ...draft, instructions: e.target.value })}
+                placeholder="What the explainer should do with the highlight…"
+                rows={8}
+                maxLength={MAX_TEMPLATE_CHARS}
+                className="w-full resize-y rounded-xl border border-border/70 bg-background/40 px-3 py-2 font-mono text-[13px] focus:outline-none"
+              />
+              <div className="flex flex-wrap gap-2">
+                {TEMPLATE_PLACEHOLDERS.map((p) => (
+                  <button
+                    key={p}
+                    onClick={() => insert(p)}
+                    title={PLACEHOLDER_HINTS[p]}
+                    className="rounded-lg border border-border/70 bg-muted/10 px-2 py-1 font-mono text-xs hover:bg-muted/20"
+                  >
+                    {`{{${p}}}`}
+                  </button>
+                ))}
+              </div>
+              <div className="text-xs text-muted-foreground">
+                Without <code>{"{{context}}"}</code>, the highlight and the PDF context are added around your
+                instructions automatically.
+              </div>
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={() => edit(null)}
+                  className="rounded-lg border border-border/70 px-3 py-1.5 hover:bg-muted/20"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => void save()}
+                  disabled={busy || !draft.name.trim() || !draft.instructions.trim()}
+                  className="inline-flex items-center gap-2 rounded-lg bg-primary px-3 py-1.5 text-primary-foreground disabled:opacity-50"
+                >
+                  {busy && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+                  Save
+                </button>
+              </div>
+            </div>
+          ) : (
+            <>
+              <div className="space-y-1">
+                {templates.map((t) => (
+                  <div key={t.id} className="group flex items-start justify-between gap-3 rounded-xl px-3 py-2 hover:bg-muted/20">
+                    <button onClick={() => onUse(t)} className="min-w-0 flex-1 text-left" title="Use this mode">
+                      <div className="font-medium">
+                        {t.name}
+                        {t.builtin && <span className="ml-2 text-[11px] font-normal text-muted-foreground">example</span>}
+                      </div>
+                      <div className="line-clamp-2 text-xs text-muted-foreground">{t.instructions}</div>
+                    </button>
+                    <div className="flex shrink-0 gap-1">
+                      {t.builtin ? (
+                        <button
+                          onClick={() => edit({ id: null, name: `${t.name} (copy)`, instructions: t.instructions })}
+                          className="rounded-md p-1 text-muted-foreground hover:bg-muted"
+                          title="Copy and edit"
+                        >
+                          <Copy className="h-3.5 w-3.5" />
+                        </button>
+                      ) : (
+                        <>
+                          <button
+                            onClick={() => edit({ id: t.id, name: t.name, instructions: t.instructions })}
+                            className="rounded-md p-1 text-muted-foreground hover:bg-muted"
+                            title="Edit"
+                          >
+                            <Pencil className="h-3.5 w-3.5" />
+                          </button>
+                          <button
+                            onClick={() => void remove(t)}
+                            className="rounded-md p-1 text-muted-foreground hover:bg-muted"
+                            title="Delete"
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <button
+                onClick={() => edit({ id: null, name: "", instructions: "" })}
+                className="inline-flex items-center gap-2 rounded-lg border border-border/70 px-3 py-1.5 hover:bg-muted/20"
+              >
+                <Plus className="h-4 w-4" />
+                New mode
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+"use client";
+
+import katex from "katex";
+import { formatPages } from "@/lib/pages";
+import { cardText } from "@/lib/study-export";
+import {
+  formatTimestamp,
+  noteSections,
+  sectionMeta,
+  sectionTitle,
+  threadsToMarkdown,
+} from "@/lib/thread-export";
+import { activeVersion, type AnswerVersion, type Thread } from "@/lib/threads";
+import { download } from "./download";
+import Markdown from "./markdown";
+
+export type ExportFormat = "md" | "html" | "pdf";
+
+// The app's Tailwind classes don't exist in a standalone file; this is enough for notes.
+const NOTES_CSS = `
+body { font: 15px/1.6 system-ui, -apple-system, "Segoe UI", sans-serif; color: #1f2328; max-width: 780px; margin: 40px auto; padding: 0 24px; }
+h1 { font-size: 1.7em; margin-bottom: 0.2em; }
+h2 { font-size: 1.3em; margin-top: 2em; border-bottom: 1px solid #d0d7de; padding-bottom: 0.2em; }
+.meta { color: #656d76; font-size: 0.85em; }
+blockquote { margin: 0.8em 0; padding: 0.4em 1em; border-left: 4px solid #a78bfa; background: #f6f4ff; }
+.reply { margin: 1em 0 1.5em; }
+.label { font-weight: 600; font-size: 0.85em; color: #57606a; }
+pre { background: #f6f8fa; padding: 12px; overflow: auto; border-radius: 6px; }
+table { border-collapse: collapse; } th, td { border: 1px solid #d0d7de; padding: 4px 8px; }
+.card { border: 1px solid #d0d7de; border-radius: 8px; padding: 8px 14px; margin: 10px 0; break-inside: avoid; }
+.thread + .thread { page-break-before: always; }
+@media print { body { margin: 0; max-width: none; } a { color: inherit; } }
+`;
+
+function Answer({ answer }: { answer: AnswerVersion }) {
+  return (
+    <div className="reply">
+      <div className="label">
+        Explanation{answer.pages && <> · {formatPages(answer.pages)}</>} · {formatTimestamp(answer.createdAt)}
+      </div>
+      <Markdown>{answer.output}</Markdown>
+    </div>
+  );
+}
+
+function ThreadNotes({ thread }: { thread: Thread }) {
+  return (
+    <article className="thread">
+      <h1>{thread.title}</h1>
+      <div className="meta">
+        {thread.fileName && <>File: {thread.fileName} · </>}
+        Started {formatTimestamp(thread.createdAt)}
+      </div>
+
+      {noteSections(thread).map((section) => (
+        <section key={section.anchor.id}>
+          <h2>{sectionTitle(section)}</h2>
+          <div className="meta">{sectionMeta(section)}</div>
+          {section.anchor.mode !== "summarize" && <blockquote>{section.anchor.highlight}</blockquote>}
+
+          {section.replies.map((m) =>
+            m.role === "followup" ? (
+              <div key={m.id} className="reply">
+                <div className="label">Follow-up · {formatTimestamp(m.createdAt)}</div>
+                <blockquote>{m.question}</blockquote>
+              </div>
+            ) : (
+              <Answer key={m.id} answer={activeVersion(m)} />
+            )
+          )}
+        </section>
+      ))}
+
+      {!!thread.cards?.length && (
+        <section>
+          <h2>Review cards</h2>
+          {thread.cards.map((card, i) => {
+            const { front, back } = cardText(card);
+            return (
+              <div key={i} className="card">
+                <Markdown>{`**${i + 1}.** ${front}`}</Markdown>
+                <details>
+                  <summary>Answer</summary>
+                  <Markdown>{back}</Markdown>
+                </details>
+              </div>
+            );
+          })}
+        </section>
+      )}
+    </article>
+  );
+}
+
+function dataUrl(blob: Blob) {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// One @font-face with its woff2 file embedded; left pointing at the app if that fails.
+async function inlineFont(rule: CSSFontFaceRule, base: string) {
+  const url = /url\(["']?([^"')]+\.woff2)["']?\)/.exec(rule.cssText)?.[1];
+  if (!url) return rule.cssText;
+  try {
+    const res = await fetch(new URL(url, base));
+    if (!res.ok) return rule.cssText;
+    const font = await dataUrl(await res.blob());
+    return rule.cssText.replace(/src:[^;}]+/, `src: url("${font}") format("woff2")`);
+  } catch {
+    return rule.cssText;
+  }
+}
+
+/**
+ * KaTeX's stylesheet as this page has it loaded (app/layout.tsx imports it), with its
+ * fonts embedded, so exported math renders offline. Empty if it isn't loaded.
+ */
+async function katexCss() {
+  const rules: string[] = [];
+  const fonts: Promise<string>[] = [];
+  for (const sheet of Array.from(document.styleSheets)) {
+    let list: CSSRuleList;
+    try {
+      list = sheet.cssRules;
+    } catch {
+      continue; // Cross-origin sheets can't be read.
+    }
+    const base = sheet.href || document.baseURI;
+    for (const rule of Array.from(list)) {
+      if (rule instanceof CSSFontFaceRule) {
+        if (rule.style.getPropertyValue("font-family").includes("KaTeX")) fonts.push(inlineFont(rule, base));
+      } else if (rule.cssText.includes(".katex")) {
+        rules.push(rule.cssText);
+      }
+    }
+  }
+  return [...(await Promise.all(fonts)), ...rules].join("\n");
+}
+
+/** A self-contained HTML page: KaTeX's styles and fonts are embedded (see katexCss). */
+export async function threadsToHtml(threads: Thread[]) {
+  // Only needed when exporting, so keep it out of the page bundle.
+  const { renderToStaticMarkup } = await import("react-dom/server");
+  const body = renderToStaticMarkup(
+    <>
+      {threads.map((t) => (
+        <ThreadNotes key={t.id} thread={t} />
+      ))}
+    </>
+  );
+  const title = threads.length === 1 ? threads[0].title : "PDF Explainer notes";
+  const escapedTitle = title.replace(/&/g, "&amp;").replace(/</g, "&lt;");
+  // The CDN copy only when the page's own can't be read (it then needs a connection).
+  const math = await katexCss();
+  const katexStyles = math
+    ? `<style>${math.replace(/<\/style/gi, "<\\/style")}</style>`
+    : `<link rel="stylesheet" href="https://cdn.jsdelivr.net/npm/katex@${katex.version}/dist/katex.min.css">`;
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapedTitle}</title>
+${katexStyles}
+<style>${NOTES_CSS}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+// Print from a hidden frame so popup blockers don't get in the way; "Save as PDF" in
+// the print dialog produces the PDF.
+function printHtml(html: string) {
+  const frame = document.createElement("iframe");
+  frame.style.cssText = "position:fixed;right:0;bottom:0;width:0;height:0;border:0";
+  frame.srcdoc = html;
+  frame.onload = () => {
+    const win = frame.contentWindow;
+    if (!win) return;
+    win.onafterprint = () => frame.remove();
+    // Give the embedded KaTeX fonts a moment to load.
+    setTimeout(() => win.print(), 300);
+  };
+  document.body.appendChild(frame);
+}
+
+function fileBase(threads: Thread[]) {
+  const name = threads.length === 1 ? threads[0].title : "pdf-explainer-notes";
+  return name.replace(/[\\/:*?"<>|]+/g, " ").replace(/\s+/g, " ").trim().slice(0, 80) || "notes";
+}
+
+export async function exportThreads(threads: Thread[], format: ExportFormat) {
+  if (threads.length === 0) return;
+  const base = fileBase(threads);
+
+  if (format === "md") {
+    download(`${base}.md`, "text/markdown", threadsToMarkdown(threads));
+    return;
+  }
+
+  const html = await threadsToHtml(threads);
+  if (format === "html") download(`${base}.html`, "text/html", html);
+  else printHtml(html);
+}
@@ -0,0 +1,192 @@
+// Keeps the server's copy of the threads (/api/threads) in step with the browser's.
+// The browser copy (local-store.ts) is what the app reads and writes; this pushes
+// changes up after a short pause and pulls in threads changed on other devices. The
+// last-synced version of every thread is remembered, so a thread missing on one side
+// can be told apart as new or deleted. Failed requests are retried when the browser
+// comes back online or the next time something changes; a thread the server rejects
+// is reported through watchSyncRejection() instead.
+import { responseError, type AppError } from "@/lib/errors";
+import type { Thread } from "@/lib/threads";
+import type { ThreadSummary } from "@/lib/thread-store";
+
+const SYNC_KEY = "pdf-explain-sync-v1";
+const PUSH_DELAY_MS = 800;
+
+type SyncState = {
+  /** Thread id -> updatedAt of the version both sides had at the last sync. */
+  synced: Record<string, number>;
+  /** Deleted here, not yet on the server. */
+  deleted: string[];
+};
+
+let state: SyncState | null = null;
+let latest: Thread[] = [];
+let timer: ReturnType<typeof setTimeout> | null = null;
+let flushing = false;
+let again = false;
+// Set when the server has no thread storage (503, or an older server without the routes).
+let unavailable = false;
+
+export type SyncRejection = { threadId: string; error: AppError };
+let rejection: SyncRejection | null = null;
+const rejectionListeners = new Set<(r: SyncRejection | null) => void>();
+
+function setRejection(r: SyncRejection | null) {
+  rejection = r;
+  for (const listener of rejectionListeners) listener(r);
+}
+
+/** The last thread the server refused to store, until it is stored after all. */
+export function watchSyncRejection(listener: (r: SyncRejection | null) => void) {
+  rejectionListeners.add(listener);
+  listener(rejection);
+  return () => {
+    rejectionListeners.delete(listener);
+  };
+}
+
+function stamp(t: Thread) {
+  return t.updatedAt ?? t.createdAt;
+}
+
+function syncState(): SyncState {
+  if (!state) {
+    try {
+      state = JSON.parse(localStorage.getItem(SYNC_KEY) || "null");
+    } catch {}
+    state ??= { synced: {}, deleted: [] };
+  }
+  return state;
+}
+
+function persist() {
+  try {
+    localStorage.setItem(SYNC_KEY, JSON.stringify(syncState()));
+  } catch {}
+}
+
+// Empty threads are placeholders for the next question; not worth keeping remotely.
+function needsPush(t: Thread) {
+  return t.messages.length > 0 && stamp(t) > (syncState().synced[t.id] ?? -1);
+}
+
+function markUnavailable(res: Response) {
+  if (res.status === 503 || res.status === 404 || res.status === 405) unavailable = true;
+  return unavailable;
+}
+
+async function flush() {
+  timer = null;
+  if (unavailable) return;
+  if (flushing) {
+    again = true;
+    return;
+  }
+  flushing = true;
+  const s = syncState();
+
+  try {
+    for (const id of [...s.deleted]) {
+      const res = await fetch(`/api/threads/${encodeURIComponent(id)}`, { method: "DELETE" });
+      // UNKNOWN_THREAD (rather than a 404 for a missing route) means it's already gone.
+      const data = await res.json().catch(() => null);
+      if (res.ok || data?.code === "UNKNOWN_THREAD") {
+        s.deleted = s.deleted.filter((x) => x !== id);
+        delete s.synced[id];
+      } else if (markUnavailable(res)) return;
+    }
+
+    for (const t of latest.filter(needsPush)) {
+      const res = await fetch(`/api/threads/${encodeURIComponent(t.id)}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(t),
+      });
+      if (res.ok) {
+        s.synced[t.id] = stamp(t);
+        if (rejection?.threadId === t.id) setRejection(null);
+      } else if (res.status === 400 || res.status === 413) {
+        // The server won't take this version; don't retry it forever.
+        setRejection({ threadId: t.id, error: await responseError(res) });
+        s.synced[t.id] = stamp(t);
+      } else if (markUnavailable(res)) return;
+    }
+  } catch {
+    // Offline; retried on "online" or the next change.
+  } finally {
+    flushing = false;
+    persist();
+    if (again) {
+      again = false;
+      schedule();
+    }
+  }
+}
+
+function schedule() {
+  if (unavailable || typeof window === "undefined") return;
+  if (timer) clearTimeout(timer);
+  timer = setTimeout(() => void flush(), PUSH_DELAY_MS);
+}
+
+if (typeof window !== "undefined") {
+  window.addEventListener("online", () => void flush());
+}
+
+/** Queue the server updates for the current set of threads (call after every change). */
+export function pushThreads(threads: Thread[]) {
+  const s = syncState();
+  const ids = new Set(threads.map((t) => t.id));
+  // Synced before but gone now: deleted in this browser.
+  const removed = Object.keys(s.synced).filter((id) => !ids.has(id) && !s.deleted.includes(id));
+  if (removed.length > 0) {
+    s.deleted.push(...removed);
+    persist();
+  }
+
+  latest = threads;
+  if (removed.length > 0 || threads.some(needsPush)) schedule();
+}
+
+/**
+ * Compare the server's threads with `local`: returns threads that are new or newer
+ * on the server, and ids of threads deleted there. Throws when the server can't be
+ * reached, in which case the browser copy is all there is.
+ */
+export async function pullThreads(local: Thread[]): Promise<{ updated: Thread[]; removed: string[] }> {
+  const res = await fetch("/api/threads");
+  const data = await res.json().catch(() => null);
+  if (!res.ok || !Array.isArray(data?.threads)) {
+    markUnavailable(res);
+    throw new Error(data?.details || data?.error || `Thread sync failed (${res.status}).`);
+  }
+
+  const s = syncState();
+  const remote = new Map((data.threads as ThreadSummary[]).map((t) => [t.id, t]));
+  const mine = new Map(local.map((t) => [t.id, t]));
+  const updated: Thread[] = [];
+  const removed: string[] = [];
+
+  for (const summary of remote.values()) {
+    const t = mine.get(summary.id);
+    if (!t && (summary.id in s.synced || s.deleted.includes(summary.id))) continue; // deleted here
+    if (t && stamp(t) >= summary.updatedAt) continue;
+
+    const full = await fetch(`/api/threads/${encodeURIComponent(summary.id)}`)
+      .then((r) => (r.ok ? r.json() : null))
+      .catch(() => null);
+    if (!full?.thread) continue;
+    updated.push(full.thread as Thread);
+    s.synced[summary.id] = stamp(full.thread as Thread);
+  }
+
+  for (const t of local) {
+    if (remote.has(t.id) || !(t.id in s.synced)) continue;
+    // Synced before but gone from the server: deleted on another device.
+    removed.push(t.id);
+    delete s.synced[t.id];
+  }
+
+  persist();
+  return { updated, removed };
+}
@@ -0,0 +1,83 @@
+// lib/breakdown.ts
+//
+// "breakdown" mode as data. The model is asked for a JSON object in the shape below;
+// the reply is validated here and also rendered to Markdown, which is what threads keep
+// as the message text (follow-up history, exports). The client shows the object as cards.
+import { parseJsonReply } from "./llm";
+
+export type Breakdown = {
+  /** The highlight's main claim, in one line. */
+  claim: string;
+  /** Key phrases from the highlight and what they mean here (a small glossary). */
+  phrases: Array<{ phrase: string; meaning: string }>;
+  /** What "this", "it", "Eq. (4)", "[12]"… in the highlight point to. */
+  references: Array<{ term: string; refersTo: string; page?: number }>;
+  whyItMatters: string;
+  /** Pages the answer relied on. */
+  pages: number[];
+};
+
+const MAX_PHRASES = 12;
+const MAX_REFERENCES = 8;
+
+export const BREAKDOWN_INSTRUCTIONS = `Break the highlight down. Reply with ONE JSON object only, no prose around it, in exactly this shape:
+{
+  "claim": "the main claim, in one line",
+  "phrases": [{ "phrase": "a key phrase as written in the highlight", "meaning": "what it means here" }],
+  "references": [{ "term": "this / it / they / which / Eq. (4) / [12] …", "refersTo": "what it points to", "page": <N or null> }],
+  "whyItMatters": "why it matters in context, 1–2 lines",
+  "pages": [<pages you relied on>]
+}
+Use [] when there are no key phrases or references. Strings may use Markdown and LaTeX ($...$); keep the JSON keys in English.`;
+
+function str(x: unknown) {
+  return typeof x === "string" ? x.trim() : "";
+}
+
+function page(x: unknown) {
+  return typeof x === "number" && Number.isInteger(x) && x > 0 ? x : undefined;
+}
+
+/** Check a parsed reply against the shape; null unless at least the claim is usable. */
+export function validateBreakdown(raw: unknown): Breakdown | null {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+  const b = raw as Record<string, unknown>;
+
+  const claim = str(b.claim);
+  if (!claim) return null;
+
+  const list = (x: unknown) => (Array.isArray(x) ? x.filter((e) => e && typeof e === "object") : []);
+  const phrases = list(b.phrases)
+    .map((p) => ({ phrase: str(p.phrase), meaning: str(p.meaning) }))
+    .filter((p) => p.phrase && p.meaning)
+    .slice(0, MAX_PHRASES);
+  const references = list(b.references)
+    .map((r) => ({ term: str(r.term), refersTo: str(r.refersTo), page: page(r.page) }))
+    .filter((r) => r.term && r.refersTo)
+    .slice(0, MAX_REFERENCES);
+  const pages = Array.isArray(b.pages) ? [...new Set(b.pages.map(page).filter((p) => p !== undefined))] : [];
+
+  return { claim, phrases, references, whyItMatters: str(b.whyItMatters), pages };
+}
+
+export function parseBreakdown(reply: string): Breakdown | null {
+  return validateBreakdown(parseJsonReply(reply));
+}
+
+export function breakdownToMarkdown(b: Breakdown) {
+  const out = [`**Main claim:** ${b.claim}`];
+
+  if (b.phrases.length) {
+    out.push("**Key phrases**\n" + b.phrases.map((p) => `- **${p.phrase}** — ${p.meaning}`).join("\n"));
+  }
+  if (b.references.length) {
+    out.push(
+      "**References**\n" +
+        b.references.map((r) => `- **${r.term}** → ${r.refersTo}${r.page ? ` (p. ${r.page})` : ""}`).join("\n")
+    );
+  }
+  if (b.whyItMatters) out.push(`**Why it matters:** ${b.whyItMatters}`);
+  if (b.pages.length) out.push(`_Pages: ${b.pages.join(", ")}_`);
+
+  return out.join("\n\n");
+}
@@ -0,0 +1,120 @@
+// lib/document-store.ts
+import path from "path";
+import fs from "fs/promises";
+import os from "os";
+import { createHash } from "crypto";
+import { countPages, extractText, type ExtractionDebug, type OcrReport } from "./extract";
+import { detectLanguage, type DetectedLanguage } from "./language";
+import { buildOutline, inferOutline, type Outline } from "./outline";
+import { pageOffsets } from "./pages";
+import { AppError } from "./errors";
+import { limits } from "./validation";
+
+export type StoredDocument = {
+  docId: string;
+  fileName: string;
+  size: number;
+  createdAt: number;
+  text: string;
+  /** Start offset of each page in `text` (see lib/pages.ts). */
+  pageStarts: number[];
+  debug: ExtractionDebug;
+  /** Which pages came from OCR, if any had no text layer. */
+  ocr?: OcrReport;
+  /** Table of contents (see lib/outline.ts). */
+  outline: Outline;
+  /** What the text is written in (see lib/language.ts). */
+  language: DetectedLanguage;
+};
+
+// Hot cache for this instance; the tmp file lets a warm serverless instance (or a dev
+// server restart) pick the document up again without another upload.
+const cache = new Map<string, StoredDocument>();
+const MAX_CACHED = 20;
+
+function docPath(docId: string) {
+  return path.join(os.tmpdir(), `pdfdoc-${docId}.json`);
+}
+
+function remember(doc: StoredDocument) {
+  cache.delete(doc.docId);
+  cache.set(doc.docId, doc);
+  while (cache.size > MAX_CACHED) {
+    const oldest = cache.keys().next().value;
+    if (oldest === undefined) break;
+    cache.delete(oldest);
+  }
+}
+
+export function hashPdf(pdfBuffer: Buffer) {
+  return createHash("sha256").update(pdfBuffer).digest("hex");
+}
+
+export function isDocId(x: string) {
+  return /^[a-f0-9]{64}$/.test(x);
+}
+
+export async function getDocument(docId: string): Promise<StoredDocument | null> {
+  if (!isDocId(docId)) return null;
+
+  const hit = cache.get(docId);
+  if (hit) return hit;
+
+  try {
+    const doc = JSON.parse(await fs.readFile(docPath(docId), "utf8")) as StoredDocument;
+    // Records written before page tracking existed.
+    doc.pageStarts ??= pageOffsets(doc.text);
+    // ...and before outlines; headings are all we can recover without the PDF.
+    doc.outline ??= { source: "headings", entries: inferOutline(doc.text, doc.pageStarts) };
+    doc.language ??= detectLanguage(doc.text);
+    remember(doc);
+    return doc;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Store a PDF's extracted text under its content hash. Uploading the same bytes again
+ * returns the existing record without re-running extraction.
+ */
+export async function putDocument(pdfBuffer: Buffer, fileName: string) {
+  const docId = hashPdf(pdfBuffer);
+
+  const existing = await getDocument(docId);
+  if (existing) return { doc: existing, cached: true };
+
+  // Checked before extraction, which is the expensive part (OCR especially). A file
+  // pdf.js can't open is left for extraction to report.
+  const { maxPdfPages } = limits();
+  const pages = await countPages(pdfBuffer).catch(() => null);
+  if (maxPdfPages > 0 && pages !== null && pages > maxPdfPages) {
+    throw new AppError("TOO_MANY_PAGES", `The PDF has ${pages} pages; the limit is ${maxPdfPages}.`, {
+      status: 413,
+    });
+  }
+
+  const { text, debug, ocr } = await extractText(pdfBuffer).catch((err: unknown) => {
+    throw new AppError("EXTRACTION_FAILED", err instanceof Error ? err.message : String(err));
+  });
+  const pageStarts = pageOffsets(text);
+
+  const doc: StoredDocument = {
+    docId,
+    fileName,
+    size: pdfBuffer.length,
+    createdAt: Date.now(),
+    text,
+    pageStarts,
+    debug,
+    ocr,
+    outline: await buildOutline(pdfBuffer, text, pageStarts),
+    language: detectLanguage(text),
+  };
+
+  remember(doc);
+  // Best-effort: the in-memory copy is enough for this instance.
+  await fs.writeFile(docPath(docId), JSON.stringify(doc)).catch(() => {});
+
+  return { doc, cached: false };
+}
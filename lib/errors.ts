@@ -0,0 +1,269 @@
+// lib/errors.ts
+//
+// The error taxonomy shared by the API routes and the UI. Anything that can go wrong on
+// the way from upload to answer is an AppError with a code; routes report it as
+// { error, code, details, retryAfter? } and the UI looks the code up here for what to
+// tell the user and whether retrying the same request can help. No server-only imports,
+// so the browser can use it too.
+
+export type ErrorCode =
+  // The request itself
+  | "INVALID_REQUEST"
+  | "PAYLOAD_TOO_LARGE"
+  | "TOO_MANY_PAGES"
+  | "HIGHLIGHT_TOO_LONG"
+  | "RATE_LIMITED"
+  | "INVALID_TEMPLATE"
+  | "UNKNOWN_TEMPLATE"
+  // The PDF
+  | "UNKNOWN_DOCUMENT"
+  | "EXTRACTION_FAILED"
+  | "NO_TEXT_LAYER"
+  | "HIGHLIGHT_NOT_FOUND"
+  // Saved threads
+  | "INVALID_THREAD"
+  | "UNKNOWN_THREAD"
+  | "THREADS_DISABLED"
+  // The model
+  | "LLM_NOT_CONFIGURED"
+  | "LLM_AUTH_FAILED"
+  | "LLM_TIMEOUT"
+  | "LLM_RATE_LIMITED"
+  | "LLM_UNAVAILABLE"
+  | "LLM_BAD_OUTPUT"
+  // Everything else; NETWORK is the browser's: the request never got an answer.
+  | "NETWORK"
+  | "INTERNAL";
+
+type ErrorInfo = {
+  title: string;
+  status: number;
+  /** What the user can do about it. */
+  hint: string;
+  /** Whether sending the same request again may work. */
+  retry: boolean;
+};
+
+const ERRORS: Record<ErrorCode, ErrorInfo> = {
+  INVALID_REQUEST: {
+    title: "Invalid request.",
+    status: 400,
+    hint: "Something in the request was rejected; check the details below.",
+    retry: false,
+  },
+  PAYLOAD_TOO_LARGE: {
+    title: "PDF too large.",
+    status: 413,
+    hint: "Split the PDF or compress it, then choose it again.",
+    retry: false,
+  },
+  TOO_MANY_PAGES: {
+    title: "PDF has too many pages.",
+    status: 413,
+    hint: "Extract the pages you need into a smaller PDF and choose that.",
+    retry: false,
+  },
+  HIGHLIGHT_TOO_LONG: {
+    title: "Highlight too long.",
+    status: 413,
+    hint: "Select a shorter passage, or summarize the section instead.",
+    retry: false,
+  },
+  RATE_LIMITED: {
+    title: "Too many requests.",
+    status: 429,
+    hint: "Wait a moment, then retry.",
+    retry: true,
+  },
+  INVALID_TEMPLATE: {
+    title: "Invalid template.",
+    status: 400,
+    hint: "Fix the mode under “Manage modes…” and ask again.",
+    retry: false,
+  },
+  UNKNOWN_TEMPLATE: {
+    title: "Unknown template.",
+    status: 404,
+    hint: "The mode was deleted; pick another one.",
+    retry: false,
+  },
+  UNKNOWN_DOCUMENT: {
+    title: "Unknown document.",
+    status: 404,
+    hint: "Choose the PDF again so it is uploaded anew.",
+    retry: true,
+  },
+  EXTRACTION_FAILED: {
+    title: "Couldn't read the PDF.",
+    status: 422,
+    hint: "The file may be damaged or encrypted. Re-save it (e.g. print to PDF) and choose it again.",
+    retry: true,
+  },
+  NO_TEXT_LAYER: {
+    title: "No text in this PDF.",
+    status: 422,
+    hint: "It looks like a scan. Run it through OCR first, or install Tesseract on the server so it can do that.",
+    retry: false,
+  },
+  HIGHLIGHT_NOT_FOUND: {
+    title: "Highlight not found in the PDF.",
+    status: 422,
+    hint: "Select the passage in the viewer instead of pasting it, and check that the right PDF is chosen.",
+    retry: false,
+  },
+  INVALID_THREAD: {
+    title: "Invalid thread.",
+    status: 400,
+    hint: "The server would not store this thread; it stays in this browser.",
+    retry: false,
+  },
+  UNKNOWN_THREAD: {
+    title: "Unknown thread.",
+    status: 404,
+    hint: "It was deleted, perhaps on another device.",
+    retry: false,
+  },
+  THREADS_DISABLED: {
+    title: "Thread storage is disabled.",
+    status: 503,
+    hint: "Threads are kept in this browser only.",
+    retry: false,
+  },
+  LLM_NOT_CONFIGURED: {
+    title: "No language model configured.",
+    status: 503,
+    hint: "Set OPENAI_API_KEY (or LOCAL_LLM_BASE_URL) on the server, or pick another provider.",
+    retry: false,
+  },
+  LLM_AUTH_FAILED: {
+    title: "The model provider rejected the API key.",
+    status: 502,
+    hint: "Check the server's API key and that its account has access to the model.",
+    retry: false,
+  },
+  LLM_TIMEOUT: {
+    title: "The model took too long.",
+    status: 504,
+    hint: "Retry; a shorter highlight or a smaller page range also helps.",
+    retry: true,
+  },
+  LLM_RATE_LIMITED: {
+    title: "The model provider is rate limiting us.",
+    status: 429,
+    hint: "Wait a minute, then retry.",
+    retry: true,
+  },
+  LLM_UNAVAILABLE: {
+    title: "The model provider is unavailable.",
+    status: 502,
+    hint: "Retry in a moment; if it persists, check the provider's status or the local model server.",
+    retry: true,
+  },
+  LLM_BAD_OUTPUT: {
+    title: "The model returned something unusable.",
+    status: 502,
+    hint: "Retry; answers vary between attempts.",
+    retry: true,
+  },
+  NETWORK: {
+    title: "Couldn't reach the server.",
+    status: 0,
+    hint: "Check your connection, then retry.",
+    retry: true,
+  },
+  INTERNAL: {
+    title: "Something went wrong.",
+    status: 500,
+    hint: "Retry; if it keeps failing, the server log has the details.",
+    retry: true,
+  },
+};
+
+export function isErrorCode(x: unknown): x is ErrorCode {
+  return typeof x === "string" && Object.hasOwn(ERRORS, x);
+}
+
+export function errorInfo(code: ErrorCode): ErrorInfo {
+  return ERRORS[code];
+}
+
+export class AppError extends Error {
+  readonly code: ErrorCode;
+  readonly status: number;
+  /** Seconds until a rate-limited client may try again. */
+  readonly retryAfter?: number;
+
+  constructor(code: ErrorCode, message: string, opts: { status?: number; retryAfter?: number } = {}) {
+    super(message);
+    this.name = "AppError";
+    this.code = code;
+    this.status = opts.status ?? ERRORS[code].status;
+    this.retryAfter = opts.retryAfter;
+  }
+
+  get title() {
+    return ERRORS[this.code].title;
+  }
+}
+
+/**
+ * What the routes respond with. `title` stands in for errors that aren't AppErrors,
+ * e.g. "Explanation failed." — those are bugs, reported as INTERNAL.
+ */
+export function errorBody(err: unknown, title: string) {
+  if (err instanceof AppError) {
+    return {
+      error: err.title,
+      code: err.code,
+      details: err.message,
+      status: err.status,
+      ...(err.retryAfter !== undefined ? { retryAfter: err.retryAfter } : {}),
+    };
+  }
+  const msg = err instanceof Error ? err.message : String(err);
+  return { error: title, code: "INTERNAL" as ErrorCode, details: msg, status: 500 };
+}
+
+/** Retry-After for rate-limited responses. */
+export function errorHeaders(err: unknown): HeadersInit | undefined {
+  return err instanceof AppError && err.retryAfter !== undefined
+    ? { "Retry-After": String(err.retryAfter) }
+    : undefined;
+}
+
+/**
+ * errorBody() as the route's JSON response. The platform Response, not NextResponse,
+ * so this module stays importable from client code.
+ */
+export function errorResponse(err: unknown, title: string) {
+  const { status, ...body } = errorBody(err, title);
+  return Response.json(body, { status, headers: errorHeaders(err) });
+}
+
+/** Client side: turn an error body (from JSON or an SSE "error" event) back into an AppError. */
+export function fromErrorBody(data: unknown, status = 500): AppError {
+  const body = (data && typeof data === "object" ? data : {}) as Record<string, unknown>;
+  const code = isErrorCode(body.code) ? body.code : "INTERNAL";
+  const details = typeof body.details === "string" && body.details ? body.details : String(body.error || "");
+  return new AppError(code, details || errorInfo(code).title, {
+    status: typeof body.status === "number" ? body.status : status,
+    retryAfter: typeof body.retryAfter === "number" ? body.retryAfter : undefined,
+  });
+}
+
+/** Client side: the AppError behind a failed fetch() or a non-OK response. */
+export async function responseError(res: Response): Promise<AppError> {
+  const raw = await res.text().catch(() => "");
+  try {
+    return fromErrorBody(JSON.parse(raw), res.status);
+  } catch {
+    return new AppError("INTERNAL", raw.trim().slice(0, 500) || `HTTP ${res.status}`, { status: res.status });
+  }
+}
+
+/** Client side: any thrown value as an AppError; fetch() rejects with a TypeError when offline. */
+export function toAppError(err: unknown): AppError {
+  if (err instanceof AppError) return err;
+  if (err instanceof TypeError) return new AppError("NETWORK", err.message);
+  return new AppError("INTERNAL", err instanceof Error ? err.message : String(err));
+}
@@ -0,0 +1,392 @@
+// lib/explain.ts
+import { BREAKDOWN_INSTRUCTIONS, breakdownToMarkdown, parseBreakdown, type Breakdown } from "./breakdown";
+import { getDocument, type StoredDocument } from "./document-store";
+import { findHighlight, type HighlightMatch } from "./match";
+import { formatSection, sectionPath } from "./outline";
+import { formatPages, pageRange, pageSpan, withPageMarkers, type PageRange } from "./pages";
+import { fitToBudget, rankPassages } from "./retrieval";
+import { languageInfo, languageInstruction, type OutputLanguage } from "./language";
+import { resolveReferences } from "./references";
+import type { ExtractionDebug, OcrPage } from "./extract";
+import { getProvider, type LlmMessage } from "./llm";
+import { summarize, type SummaryRange } from "./summarize";
+import { renderTemplate, usesPlaceholder, type TemplateInput } from "./templates";
+import { AppError } from "./errors";
+
+/** "custom" runs a user-defined template (see lib/templates.ts) instead of built-in instructions. */
+export const MODES = ["quick", "breakdown", "example", "assumptions", "summarize", "custom"] as const;
+export type Mode = (typeof MODES)[number];
+export const READING_LEVELS = ["middle", "high", "college", "expert"] as const;
+export type ReadingLevel = (typeof READING_LEVELS)[number];
+
+/** An earlier turn of the thread, replayed to the model for follow-up questions. */
+export type ChatTurn = { role: "user" | "assistant"; content: string };
+
+export type ExplainRequest = {
+  docId: string;
+  highlight: string;
+  mode: Mode;
+  readingLevel: ReadingLevel;
+  /** Language to answer in (default English); see lib/language.ts. */
+  language?: OutputLanguage;
+  pageHint: number | null;
+  /** Optional per-request LLM provider (see lib/llm). */
+  provider?: string;
+  /** Set for a follow-up: the question about `highlight`, asked after `history`. */
+  question?: string;
+  history?: ChatTurn[];
+  /** For "summarize": what to summarize (whole document when omitted). No highlight needed. */
+  range?: SummaryRange;
+  /** For "custom": the template, already validated (saved ones are looked up by the route). */
+  template?: TemplateInput;
+  /** Aborts the LLM calls when the client goes away or presses Stop. */
+  signal?: AbortSignal;
+};
+
+const MAX_HISTORY_TURNS = 20;
+
+/** Parse the `history` form field: a JSON array; turns that aren't well-formed are dropped. */
+export function parseHistory(raw: string): ChatTurn[] {
+  if (!raw) return [];
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new AppError("INVALID_REQUEST", '"history" is not valid JSON.');
+  }
+  if (!Array.isArray(parsed)) throw new AppError("INVALID_REQUEST", '"history" must be a JSON array of turns.');
+
+  return parsed
+    .filter(
+      (t): t is ChatTurn =>
+        !!t &&
+        (t.role === "user" || t.role === "assistant") &&
+        typeof t.content === "string" &&
+        t.content.trim() !== ""
+    )
+    .map((t) => ({ role: t.role, content: t.content }))
+    .slice(-MAX_HISTORY_TURNS);
+}
+
+export type ExplainStage = "extracting" | "locating" | "summarizing" | "generating";
+
+export type ExplainResult = {
+  output: string;
+  match: { start: number; end: number; score: number } | null;
+  pages: { match: PageRange | null; context: PageRange };
+  /** Where the highlight sits in the outline, e.g. "4 Methods › 4.1 Sampling". */
+  section: string | null;
+  /** Passages from elsewhere in the document that were added to the prompt. */
+  passages: Array<{ page: number; start: number; end: number; score: number; preview: string }>;
+  /** "Eq. (4)", "[12]", … mentioned in or near the highlight, and where they were found. */
+  references: Array<{ label: string; kind: string; found: boolean; page: number | null }>;
+  /** OCR'd pages inside the context window (null when the document needed no OCR). */
+  ocr: { pages: OcrPage[]; skipped?: string } | null;
+  /** Set for "summarize": what was covered, in how many map chunks, and whether it was cached. */
+  summary: { label: string; chunks: number; cached: boolean } | null;
+  /** Set for "breakdown" when the model's JSON validated; `output` is its Markdown form. */
+  breakdown: Breakdown | null;
+  /** Detected language of the document and the one the answer was asked for. */
+  language: { source: string; target: string };
+  debug: ExtractionDebug & { llm: { provider: string; model: string } };
+};
+
+/**
+ * Everything the route reports while working. The JSON response is just the final
+ * "done" event; the streaming response forwards all of them as SSE.
+ */
+export type ExplainEvent =
+  | { type: "stage"; stage: ExplainStage; progress?: { done: number; total: number } }
+  | { type: "delta"; text: string }
+  | { type: "done"; result: ExplainResult };
+
+export class UnknownDocumentError extends AppError {
+  constructor(docId: string) {
+    super("UNKNOWN_DOCUMENT", `No stored document ${docId}. Upload the PDF again via /api/documents.`);
+    this.name = "UnknownDocumentError";
+  }
+}
+
+export function findContext(
+  doc: StoredDocument,
+  highlight: string,
+  pageHint: number | null,
+  windowChars = 4000
+) {
+  const { text, pageStarts } = doc;
+
+  // The viewer tells us which page the selection came from; look there first so a
+  // phrase repeated elsewhere in the document resolves to the right occurrence.
+  let match: HighlightMatch | null = null;
+  if (pageHint) {
+    const span = pageSpan(pageStarts, text.length, pageHint - 1, pageHint + 1);
+    const local = findHighlight(text.slice(span.start, span.end), highlight);
+    if (local) match = { ...local, start: local.start + span.start, end: local.end + span.start };
+  }
+  match ??= findHighlight(text, highlight);
+
+  // If we can't locate the highlight, just return the first chunk as "context".
+  if (!match) {
+    const end = Math.min(text.length, Math.round(windowChars * 0.875));
+    return {
+      match: null,
+      context: withPageMarkers(text, pageStarts, 0, end),
+      contextPages: pageRange(pageStarts, 0, end),
+      window: { start: 0, end },
+    };
+  }
+
+  // Grab a window around the match
+  const start = Math.max(0, match.start - Math.floor(windowChars * 0.45));
+  const end = Math.min(text.length, match.end + Math.floor(windowChars * 0.55));
+
+  return {
+    match: { ...match, pages: pageRange(pageStarts, match.start, match.end) },
+    context: withPageMarkers(text, pageStarts, start, end),
+    contextPages: pageRange(pageStarts, start, end),
+    window: { start, end },
+  };
+}
+
+// Related passages may add roughly this many tokens (~4 chars each) to the prompt.
+function relatedBudgetChars() {
+  return (Number(process.env.RELATED_TOKEN_BUDGET) || 1200) * 4;
+}
+
+function relatedPassages(
+  doc: StoredDocument,
+  query: string,
+  window: { start: number; end: number },
+  anchor?: number
+) {
+  const ranked = rankPassages(doc, query, { exclude: window, anchor, limit: 12 });
+  return fitToBudget(ranked, relatedBudgetChars());
+}
+
+// References are picked up from the highlight and this much text on either side of it.
+const REFERENCE_SCAN_CHARS = 600;
+
+function referencedMaterial(
+  doc: StoredDocument,
+  highlight: string,
+  match: { start: number; end: number } | null,
+  window: { start: number; end: number }
+) {
+  const nearby = match
+    ? doc.text.slice(Math.max(0, match.start - REFERENCE_SCAN_CHARS), match.end + REFERENCE_SCAN_CHARS)
+    : "";
+  const refs = resolveReferences(doc, [highlight, nearby]);
+
+  // Targets already inside the context window don't need repeating.
+  const fresh = refs.filter(
+    (r) => r.found && !((r.start ?? 0) >= window.start && (r.end ?? 0) <= window.end)
+  );
+  const missing = refs.filter((r) => !r.found);
+
+  const block =
+    fresh.length || missing.length
+      ? "\n\nREFERENCED MATERIAL (targets of references in or near the highlight):\n" +
+        [
+          ...fresh.map((r) => `[${r.label}, p. ${r.page}]\n${r.text}`),
+          ...(missing.length ? [`Not found in the PDF: ${missing.map((r) => r.label).join(", ")}`] : []),
+        ].join("\n\n")
+      : "";
+
+  return {
+    block,
+    references: refs.map((r) => ({ label: r.label, kind: r.kind, found: r.found, page: r.page ?? null })),
+  };
+}
+
+// Summaries have their own prompts (lib/summarize.ts).
+function buildInstructions(mode: Exclude<Mode, "summarize">) {
+  switch (mode) {
+    case "quick":
+      return `Explain the highlight in 2–4 sentences, notice any key terms, and connect it to the nearby context.`;
+    case "breakdown":
+      return `Explain in a structured way:
+- Main claim (1 line)
+- Key phrases decoded (bullets)
+- Reference resolution: what “this/it/they/which” refers to (if present)
+- Why it matters in context (1–2 lines)`;
+    case "example":
+      return `Explain it, then give ONE short example or analogy that matches the context.`;
+    case "assumptions":
+      return `Explain it and explicitly list assumptions you had to make because context may be missing.`;
+    default:
+      return `Explain clearly using only the provided context.`;
+  }
+}
+
+const LEVEL_NAMES: Record<ReadingLevel, string> = {
+  middle: "middle school",
+  high: "high school",
+  college: "college",
+  expert: "expert",
+};
+
+export function mapReadingLevel(level: ReadingLevel) {
+  switch (level) {
+    case "middle":
+      return "Write at a middle school reading level. Be simple and clear.";
+    case "high":
+      return "Write at a high school reading level. Clear, but not childish.";
+    case "college":
+      return "Write at a college reading level. More precise, but still readable.";
+    case "expert":
+      return "Write at an expert level. Use precise terminology, concise.";
+    default:
+      return "Write clearly.";
+  }
+}
+
+export async function* explain(req: ExplainRequest): AsyncGenerator<ExplainEvent> {
+  const { docId, highlight, mode, readingLevel, pageHint, question, history = [], language = "en" } = req;
+
+  // Resolve first so a bad provider fails before any work is done.
+  const llm = getProvider(req.provider);
+
+  yield { type: "stage", stage: "extracting" };
+
+  const doc = await getDocument(docId);
+  // Evicted or uploaded to another instance: the client re-uploads and retries.
+  if (!doc) throw new UnknownDocumentError(docId);
+
+  // A scan that OCR couldn't (or wasn't allowed to) read: nothing to ground an answer in.
+  if (!doc.text.trim()) {
+    const why = doc.ocr?.skipped ? ` OCR was skipped: ${doc.ocr.skipped}.` : "";
+    throw new AppError("NO_TEXT_LAYER", `No text could be extracted from ${doc.fileName}.${why}`);
+  }
+
+  const debug = { ...doc.debug, llm: { provider: llm.name, model: llm.model } };
+
+  if (mode === "summarize") {
+    yield* summarize(doc, llm, {
+      range: req.range,
+      readingLevel,
+      language,
+      level: mapReadingLevel(readingLevel),
+      debug,
+      signal: req.signal,
+    });
+    return;
+  }
+
+  yield { type: "stage", stage: "locating" };
+
+  const { match, context, contextPages, window } = findContext(doc, highlight, pageHint);
+  // Explaining the start of the document instead would answer a different question.
+  if (!match) {
+    throw new AppError(
+      "HIGHLIGHT_NOT_FOUND",
+      `The highlight could not be located in ${doc.fileName}${pageHint ? ` (looked on and near p. ${pageHint})` : ""}.`
+    );
+  }
+  const related = relatedPassages(doc, [highlight, question].filter(Boolean).join(" "), window, match.start);
+  const passages = related.map((p) => ({
+    page: p.page,
+    start: p.start,
+    end: p.end,
+    score: Number(p.score.toFixed(3)),
+    preview: doc.text.slice(p.start, p.start + 160).replace(/\s+/g, " ").trim(),
+  }));
+  const { block: referenceBlock, references } = referencedMaterial(doc, highlight, match, window);
+  const matchScore = Number(match.score.toFixed(3));
+  const matchInfo = { start: match.start, end: match.end, score: matchScore };
+  const pages = { match: match.pages, context: contextPages };
+  const section = formatSection(sectionPath(doc.outline.entries, match.start)) || null;
+  const ocr = doc.ocr
+    ? {
+        pages: doc.ocr.pages.filter((p) => p.page >= contextPages[0] && p.page <= contextPages[1]),
+        skipped: doc.ocr.skipped,
+      }
+    : null;
+
+  // Follow-ups in a breakdown thread are conversation, not another breakdown.
+  const structured = mode === "breakdown" && !question;
+  const level = mapReadingLevel(readingLevel);
+  const template = mode === "custom" ? req.template : undefined;
+  const filled =
+    template &&
+    renderTemplate(template.instructions, {
+      highlight,
+      context,
+      readingLevel: LEVEL_NAMES[readingLevel] ?? readingLevel,
+      section: section ?? "unknown",
+    });
+  const instructions = structured ? BREAKDOWN_INSTRUCTIONS : (filled ?? buildInstructions(mode));
+
+  yield { type: "stage", stage: "generating" };
+
+  const system = `You are a careful study assistant.
+Rules:
+- Use ONLY the provided context. If insufficient, say what’s missing.
+- Do not hallucinate facts outside the context.
+- Keep it helpful and readable.
+- SECTION says where in the document the highlight is; use it to frame the explanation.
+- The context is marked with [p. N] page markers. Cite the pages you rely on, like (p. 12).
+- REFERENCED MATERIAL is what the highlight's "Eq. (4)", "Section 2", "[12]" etc. point to; use it to explain them.
+- RELATED PASSAGES come from elsewhere in the PDF; use them for definitions and earlier mentions.
+- Format with Markdown. Write math as LaTeX: $...$ inline, $$...$$ for display.
+- Follow-up questions refer to the same highlight and context; answer them directly.
+- ${level}
+- ${languageInstruction(language, doc.language)}`;
+
+  const contextLabel = `CONTEXT (from PDF near the highlight, which is on ${formatPages(match.pages)})`;
+
+  const ocrNote = ocr?.pages.length
+    ? `\n\nNOTE: ${ocr.pages.map((p) => `p. ${p.page} (${Math.round(p.confidence)}%)`).join(", ")} ` +
+      `came from OCR of a scanned page and may contain recognition errors.`
+    : "";
+
+  const relatedBlock = related.length
+    ? "\n\nRELATED PASSAGES (elsewhere in the PDF, most relevant first — definitions, earlier mentions):\n" +
+      related
+        .map((p, i) => `[#${i + 1}, p. ${p.page}]\n${doc.text.slice(p.start, p.end).replace(/\f/g, "").trim()}`)
+        .join("\n\n")
+    : "";
+
+  const sectionLine = section ? `\n\nSECTION: ${section}` : "";
+
+  // A template that places the context itself is the whole request, not just the instructions.
+  const user =
+    template && usesPlaceholder(template.instructions, "context")
+      ? `${instructions}${ocrNote}${referenceBlock}${relatedBlock}`
+      : `HIGHLIGHT:\n${highlight}${sectionLine}\n\nMODE INSTRUCTIONS:\n${instructions}\n\n${contextLabel}:\n${context}${ocrNote}${referenceBlock}${relatedBlock}`;
+
+  const messages: LlmMessage[] = [
+    { role: "system", content: system },
+    { role: "user", content: user },
+    ...history,
+    ...(question ? [{ role: "user" as const, content: question }] : []),
+  ];
+
+  let output = "";
+  for await (const text of llm.stream({ messages, temperature: 0.3, json: structured, signal: req.signal })) {
+    output += text;
+    // Half a JSON object is no use to the reader; breakdowns arrive in one piece below.
+    if (!structured) yield { type: "delta", text };
+  }
+
+  // Anything that doesn't validate is shown as the plain text it is.
+  const breakdown = structured ? parseBreakdown(output) : null;
+  if (breakdown) output = breakdownToMarkdown(breakdown);
+  if (structured) yield { type: "delta", text: output };
+
+  yield {
+    type: "done",
+    result: {
+      output: output.trim() || "No output.",
+      match: matchInfo,
+      pages,
+      section,
+      passages,
+      references,
+      ocr,
+      summary: null,
+      breakdown,
+      language: languageInfo(language, doc.language),
+      debug,
+    },
+  };
+}
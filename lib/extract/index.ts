@@ -0,0 +1,67 @@
+// lib/extract/index.ts
+//
+// Backend selection: Poppler when its binary runs here (best layout fidelity), pdf.js
+// otherwise, or when Poppler fails on a particular file. PDF_EXTRACTOR=poppler|pdfjs
+// pins one backend.
+import { maxOcrPages, ocrPages, pagesWithoutText } from "./ocr";
+import { pdfjsBackend } from "./pdfjs";
+import { popplerBackend } from "./poppler";
+import type { BackendName, Extraction, ExtractionBackend } from "./types";
+
+export { countPages, readBookmarks, type Bookmark } from "./pdfjs";
+export type { BackendName, Extraction, ExtractionDebug, OcrPage, OcrReport } from "./types";
+
+const BACKENDS: ExtractionBackend[] = [popplerBackend, pdfjsBackend];
+
+function pinnedBackend(): BackendName | null {
+  const pinned = process.env.PDF_EXTRACTOR?.trim();
+  return pinned === "poppler" || pinned === "pdfjs" ? pinned : null;
+}
+
+/** Replace pages that have no text layer with OCR output, when OCR is possible. */
+async function withOcr(pdfBuffer: Buffer, extraction: Extraction): Promise<Extraction> {
+  const pages = extraction.text.split("\f");
+  // pdftotext terminates the last page with \f too.
+  const trailing = pages.length > 1 && pages[pages.length - 1] === "" ? pages.pop() : undefined;
+
+  const scanned = pagesWithoutText(pages);
+  if (scanned.length === 0) return extraction;
+  if (maxOcrPages() === 0) {
+    return { ...extraction, ocr: { pages: [], skipped: "OCR disabled (OCR_MAX_PAGES=0)" } };
+  }
+
+  const { texts, report } = await ocrPages(pdfBuffer, scanned);
+  for (const [page, text] of texts) pages[page - 1] = text;
+  if (trailing !== undefined) pages.push(trailing);
+
+  return { ...extraction, text: pages.join("\f"), ocr: report };
+}
+
+export async function extractText(pdfBuffer: Buffer): Promise<Extraction> {
+  const pinned = pinnedBackend();
+  const candidates = pinned ? BACKENDS.filter((b) => b.name === pinned) : BACKENDS;
+
+  const skipped: string[] = [];
+  let lastError: unknown = null;
+
+  for (const backend of candidates) {
+    if (!(await backend.available())) {
+      skipped.push(`${backend.name}: not available`);
+      continue;
+    }
+    let result: Extraction;
+    try {
+      result = await backend.extract(pdfBuffer);
+    } catch (err) {
+      lastError = err;
+      skipped.push(`${backend.name}: ${err instanceof Error ? err.message : String(err)}`);
+      continue;
+    }
+
+    if (skipped.length > 0) result.debug.fallback = skipped.join("; ");
+    return withOcr(pdfBuffer, result);
+  }
+
+  if (lastError) throw lastError;
+  throw new Error(`No PDF extraction backend available (${skipped.join("; ")}).`);
+}
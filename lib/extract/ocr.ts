@@ -0,0 +1,131 @@
+// lib/extract/ocr.ts
+//
+// OCR for scanned pages: rasterize the page with Poppler's pdftoppm, then run the
+// Tesseract CLI and read its TSV output (which carries per-word confidence). Both are
+// optional system binaries; without them OCR is skipped and reported as such.
+import path from "path";
+import fs from "fs/promises";
+import os from "os";
+import { popplerTool } from "./poppler";
+import { describeFailure, runProcess } from "./process";
+import type { OcrReport } from "./types";
+
+// A page with fewer non-space characters than this has no usable text layer.
+const MIN_TEXT_CHARS = 25;
+
+// OCR_MAX_PAGES=0 turns OCR off.
+export function maxOcrPages() {
+  const n = Number(process.env.OCR_MAX_PAGES ?? 20);
+  return Number.isFinite(n) && n >= 0 ? n : 20;
+}
+
+let tesseractAvailable: Promise<boolean> | null = null;
+
+function tesseractBin() {
+  return process.env.TESSERACT_PATH || "tesseract";
+}
+
+// Checked once per process rather than per document.
+function hasTesseract() {
+  tesseractAvailable ??= runProcess(tesseractBin(), ["--version"], { timeoutMs: 5000 }).then((r) => r.code === 0);
+  return tesseractAvailable;
+}
+
+/** 1-based numbers of pages whose text layer is empty or near-empty. */
+export function pagesWithoutText(pageTexts: string[]) {
+  const out: number[] = [];
+  pageTexts.forEach((t, i) => {
+    if (t.replace(/\s+/g, "").length < MIN_TEXT_CHARS) out.push(i + 1);
+  });
+  return out;
+}
+
+/** Rebuild lines/paragraphs from `tesseract … tsv` rows and average word confidence. */
+function parseTsv(tsv: string) {
+  const lines = new Map<string, string[]>();
+  const confidences: number[] = [];
+
+  for (const row of tsv.split("\n").slice(1)) {
+    const cols = row.split("\t");
+    if (cols.length < 12) continue;
+    const [level, , block, par, line, , , , , , conf, ...rest] = cols;
+    const word = rest.join("\t").trim();
+    if (level !== "5" || !word) continue;
+
+    const key = `${block}.${par}.${line}`;
+    if (!lines.has(key)) lines.set(key, []);
+    lines.get(key)!.push(word);
+
+    const c = Number(conf);
+    if (c >= 0) confidences.push(c);
+  }
+
+  let text = "";
+  let lastPar = "";
+  for (const [key, words] of lines) {
+    const par = key.slice(0, key.lastIndexOf("."));
+    if (text && par !== lastPar) text += "\n";
+    text += words.join(" ") + "\n";
+    lastPar = par;
+  }
+
+  const confidence = confidences.length
+    ? confidences.reduce((a, b) => a + b, 0) / confidences.length
+    : 0;
+
+  return { text, confidence: Math.round(confidence * 10) / 10 };
+}
+
+/**
+ * OCR the given pages of a PDF. Returns the recognized text per page; pages that fail
+ * (or that Tesseract finds empty) are left out.
+ */
+export async function ocrPages(pdfBuffer: Buffer, pages: number[]) {
+  const texts = new Map<number, string>();
+  const report: OcrReport = { pages: [] };
+  if (pages.length === 0) return { texts, report };
+
+  if (!(await hasTesseract())) {
+    report.skipped = `tesseract not available (${pages.length} page(s) without text)`;
+    return { texts, report };
+  }
+
+  const todo = pages.slice(0, maxOcrPages());
+  if (todo.length < pages.length) {
+    report.skipped = `only the first ${todo.length} of ${pages.length} scanned pages were OCR'd`;
+  }
+
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "pdfocr-"));
+  try {
+    const inputPath = path.join(dir, "input.pdf");
+    await fs.writeFile(inputPath, pdfBuffer);
+    const pdftoppm = popplerTool("pdftoppm");
+    const lang = process.env.OCR_LANG || "eng";
+
+    for (const page of todo) {
+      const prefix = path.join(dir, `page-${page}`);
+      const raster = await runProcess(
+        pdftoppm.bin,
+        ["-r", "200", "-gray", "-png", "-singlefile", "-f", String(page), "-l", String(page), inputPath, prefix],
+        { env: pdftoppm.env }
+      );
+      if (raster.code !== 0) {
+        report.skipped = `pdftoppm failed: ${describeFailure(raster)}`;
+        break;
+      }
+
+      const ocr = await runProcess(tesseractBin(), [`${prefix}.png`, "stdout", "-l", lang, "--psm", "3", "tsv"]);
+      if (ocr.code !== 0) continue;
+
+      const { text, confidence } = parseTsv(ocr.stdout);
+      if (!text.trim()) continue;
+
+      texts.set(page, text);
+      report.pages.push({ page, confidence, chars: text.length });
+    }
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true }).catch(() => {});
+  }
+
+  return { texts, report };
+}
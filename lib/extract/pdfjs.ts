@@ -0,0 +1,134 @@
+// lib/extract/pdfjs.ts
+//
+// Pure-JavaScript extraction with pdf.js, for hosts without the Poppler bundle. The
+// output mimics `pdftotext -layout` closely enough for matching: one line per text
+// line, pages separated by form feeds.
+import type { Extraction, ExtractionBackend } from "./types";
+
+type PdfjsModule = typeof import("pdfjs-dist");
+
+let pdfjsPromise: Promise<PdfjsModule> | null = null;
+
+function loadPdfjs() {
+  // The legacy build is the one that runs on Node (no DOM, older syntax).
+  pdfjsPromise ??= import("pdfjs-dist/legacy/build/pdf.mjs") as Promise<PdfjsModule>;
+  return pdfjsPromise;
+}
+
+export async function runPdfjs(pdfBuffer: Buffer): Promise<Extraction> {
+  const pdfjs = await loadPdfjs();
+
+  const doc = await pdfjs.getDocument({
+    data: new Uint8Array(pdfBuffer),
+    isEvalSupported: false,
+    // Fonts only matter for rendering; keep the missing-font warnings out of the logs.
+    verbosity: pdfjs.VerbosityLevel.ERRORS,
+  }).promise;
+
+  try {
+    const pages: string[] = [];
+
+    for (let i = 1; i <= doc.numPages; i++) {
+      const page = await doc.getPage(i);
+      const content = await page.getTextContent();
+
+      let out = "";
+      let lastY: number | null = null;
+      for (const item of content.items) {
+        if (!("str" in item)) continue;
+        const y = item.transform[5];
+        // Items on a new baseline without an explicit EOL still start a new line.
+        if (lastY !== null && Math.abs(y - lastY) > 2 && out && !out.endsWith("\n")) out += "\n";
+        out += item.str;
+        if (item.hasEOL) out += "\n";
+        lastY = y;
+      }
+
+      pages.push(out.trimEnd() + "\n");
+      page.cleanup();
+    }
+
+    return {
+      text: pages.join("\f") + "\f",
+      debug: {
+        backend: "pdfjs",
+        pdfjsVersion: pdfjs.version,
+        pages: doc.numPages,
+        platform: process.platform,
+        arch: process.arch,
+      },
+    };
+  } finally {
+    await doc.destroy();
+  }
+}
+
+/** Page count without extracting anything, for upload limits. */
+export async function countPages(pdfBuffer: Buffer): Promise<number> {
+  const pdfjs = await loadPdfjs();
+
+  const doc = await pdfjs.getDocument({
+    data: new Uint8Array(pdfBuffer),
+    isEvalSupported: false,
+    verbosity: pdfjs.VerbosityLevel.ERRORS,
+  }).promise;
+
+  try {
+    return doc.numPages;
+  } finally {
+    await doc.destroy();
+  }
+}
+
+/** A bookmark from the PDF's own outline, flattened in document order. */
+export type Bookmark = { title: string; level: number; page: number };
+
+const MAX_BOOKMARKS = 500;
+
+/** The PDF's bookmark tree (empty when it has none). Pages are 1-based. */
+export async function readBookmarks(pdfBuffer: Buffer): Promise<Bookmark[]> {
+  const pdfjs = await loadPdfjs();
+
+  const doc = await pdfjs.getDocument({
+    data: new Uint8Array(pdfBuffer),
+    isEvalSupported: false,
+    verbosity: pdfjs.VerbosityLevel.ERRORS,
+  }).promise;
+
+  try {
+    type Node = Awaited<ReturnType<typeof doc.getOutline>>[number];
+    const out: Bookmark[] = [];
+
+    const pageOf = async (dest: Node["dest"]) => {
+      // Named destinations resolve to the same [pageRef, fit, ...] array.
+      const explicit = typeof dest === "string" ? await doc.getDestination(dest) : dest;
+      const target = explicit?.[0];
+      if (typeof target === "number") return target + 1;
+      if (target && typeof target === "object") return (await doc.getPageIndex(target)) + 1;
+      return null;
+    };
+
+    const walk = async (nodes: Node[], level: number) => {
+      for (const node of nodes) {
+        if (out.length >= MAX_BOOKMARKS) return;
+        const page = await pageOf(node.dest).catch(() => null);
+        const title = node.title.replace(/\s+/g, " ").trim();
+        if (page && title) out.push({ title, level, page });
+        if (node.items?.length) await walk(node.items, level + 1);
+      }
+    };
+
+    await walk((await doc.getOutline()) ?? [], 1);
+    return out;
+  } finally {
+    await doc.destroy();
+  }
+}
+
+export const pdfjsBackend: ExtractionBackend = {
+  name: "pdfjs",
+  async available() {
+    return true;
+  },
+  extract: runPdfjs,
+};
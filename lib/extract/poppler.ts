@@ -0,0 +1,100 @@
+// lib/extract/poppler.ts
+import path from "path";
+import fs from "fs/promises";
+import { existsSync } from "fs";
+import os from "os";
+import { describeFailure, runProcess } from "./process";
+import type { Extraction, ExtractionBackend } from "./types";
+
+// Prefer vendored poppler when deployed on Vercel (or if present locally)
+const vendorBin = path.join(process.cwd(), "vendor", "poppler", "bin", "pdftotext");
+const vendorLib = path.join(process.cwd(), "vendor", "poppler", "lib");
+
+// `pdftotext -v` returns at once; anything slower means a broken install.
+const HEALTH_TIMEOUT_MS = 5000;
+
+type Health = {
+  ok: boolean;
+  bin: string;
+  version?: string;
+  error?: string;
+};
+
+let health: Promise<Health> | null = null;
+
+/** Command and environment for another tool from the same Poppler install (e.g. pdftoppm). */
+export function popplerTool(tool: string) {
+  const vendored = path.join(path.dirname(vendorBin), tool);
+  const useVendor = existsSync(vendored);
+  return {
+    bin: useVendor ? vendored : tool,
+    env: {
+      ...process.env,
+      LD_LIBRARY_PATH: useVendor
+        ? `${vendorLib}:${process.env.LD_LIBRARY_PATH || ""}`
+        : process.env.LD_LIBRARY_PATH || "",
+    },
+  };
+}
+
+// `pdftotext -v` exits 0 (older builds: 99) whenever the binary and its libs load.
+async function probe(): Promise<Health> {
+  const { bin, env } = popplerTool("pdftotext");
+  // Unpacking the bundle can lose the executable bit; restore it once, here.
+  if (bin === vendorBin) await fs.chmod(vendorBin, 0o755).catch(() => {});
+
+  const result = await runProcess(bin, ["-v"], { env, timeoutMs: HEALTH_TIMEOUT_MS });
+  const version = /pdftotext version (\S+)/.exec(result.stderr + result.stdout)?.[1];
+  if (result.code === 0 || result.code === 99) return { ok: true, bin, version };
+  return { ok: false, bin, error: describeFailure(result) };
+}
+
+/** The one-time check of the binary, started when this module loads. */
+function checkHealth() {
+  health ??= probe();
+  return health;
+}
+
+void checkHealth();
+
+export async function runPdftotext(pdfBuffer: Buffer): Promise<Extraction> {
+  // If vendor exists, use it; otherwise fall back to PATH (brew poppler locally).
+  const { bin, env } = popplerTool("pdftotext");
+  const useVendor = bin === vendorBin;
+
+  // Text goes to stdout ("-") so the runner's output cap applies to it.
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "pdfex-"));
+  let text: string;
+  try {
+    const inputPath = path.join(dir, "input.pdf");
+    await fs.writeFile(inputPath, pdfBuffer);
+
+    const result = await runProcess(bin, ["-layout", inputPath, "-"], { env });
+    if (result.code !== 0) throw new Error(`pdftotext failed: ${describeFailure(result)}`);
+    text = result.stdout;
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true }).catch(() => {});
+  }
+
+  return {
+    text,
+    debug: {
+      backend: "poppler",
+      useVendor,
+      binPath: useVendor ? vendorBin : "pdftotext (PATH)",
+      vendorLibExists: useVendor ? existsSync(vendorLib) : false,
+      libHint: useVendor ? vendorLib : "(system)",
+      health: await checkHealth(),
+      platform: process.platform,
+      arch: process.arch,
+    },
+  };
+}
+
+export const popplerBackend: ExtractionBackend = {
+  name: "poppler",
+  async available() {
+    return (await checkHealth()).ok;
+  },
+  extract: runPdftotext,
+};
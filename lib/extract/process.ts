@@ -0,0 +1,170 @@
+// lib/extract/process.ts
+//
+// The one way extraction spawns a binary (pdftotext, pdftoppm, tesseract). A malformed
+// PDF can make any of them spin or balloon, so every run is bounded: a wall-clock
+// timeout after which the process is killed, a cap on captured output, a memory limit
+// (Linux), and a process-wide cap on how many run at once — the rest wait in line.
+import { spawn } from "child_process";
+
+export type ProcessResult = {
+  /**
+   * Exit code; null when the process was killed. A binary that can't be found exits with
+   * 127 from the shell that applies the memory limit; -1 when nothing could be started.
+   */
+  code: number | null;
+  stdout: string;
+  stderr: string;
+  /** Why we killed it, when we did. */
+  killed?: "timeout" | "output";
+  /** The limits this run had, for describeFailure(). */
+  timeoutMs: number;
+  maxOutputBytes: number;
+};
+
+export type ProcessOptions = {
+  env?: NodeJS.ProcessEnv;
+  /** Defaults to PROCESS_TIMEOUT_MS. */
+  timeoutMs?: number;
+  /** Bytes of stdout plus stderr; defaults to PROCESS_MAX_OUTPUT_MB. */
+  maxOutputBytes?: number;
+};
+
+// Grace period between SIGTERM and SIGKILL.
+const KILL_GRACE_MS = 2000;
+
+function envNumber(name: string, fallback: number) {
+  const n = Number(process.env[name]);
+  return process.env[name]?.trim() && Number.isFinite(n) && n >= 0 ? n : fallback;
+}
+
+/**
+ * Limits, read on each run. PROCESS_TIMEOUT_MS bounds one run, PROCESS_MAX_OUTPUT_MB
+ * what it may print, PROCESS_MAX_MEMORY_MB its address space (Linux only, 0 = off),
+ * PROCESS_CONCURRENCY how many run at once.
+ */
+export function processLimits() {
+  return {
+    timeoutMs: envNumber("PROCESS_TIMEOUT_MS", 30_000),
+    maxOutputBytes: envNumber("PROCESS_MAX_OUTPUT_MB", 64) * 1024 * 1024,
+    maxMemoryMb: envNumber("PROCESS_MAX_MEMORY_MB", 1024),
+    concurrency: Math.max(1, Math.floor(envNumber("PROCESS_CONCURRENCY", 2))),
+  };
+}
+
+let running = 0;
+const waiting: (() => void)[] = [];
+
+async function acquire() {
+  if (running < processLimits().concurrency) {
+    running++;
+    return;
+  }
+  // release() hands its slot straight to us, so `running` stays as it is.
+  await new Promise<void>((resolve) => waiting.push(resolve));
+}
+
+function release() {
+  const next = waiting.shift();
+  if (next) next();
+  else running--;
+}
+
+// `ulimit -v` in a shell that then execs the binary; "$0" is the binary, "$@" its args.
+function command(bin: string, args: string[], maxMemoryMb: number): [string, string[]] {
+  if (process.platform !== "linux" || maxMemoryMb <= 0) return [bin, args];
+  return ["/bin/sh", ["-c", `ulimit -v ${Math.floor(maxMemoryMb * 1024)} && exec "$0" "$@"`, bin, ...args]];
+}
+
+function exec(bin: string, args: string[], opts: ProcessOptions): Promise<ProcessResult> {
+  const limits = processLimits();
+  const timeoutMs = opts.timeoutMs ?? limits.timeoutMs;
+  const maxOutputBytes = opts.maxOutputBytes ?? limits.maxOutputBytes;
+  const [file, argv] = command(bin, args, limits.maxMemoryMb);
+
+  return new Promise((resolve) => {
+    // Its own process group, so a kill also reaches anything it started; a surviving
+    // grandchild would hold the pipes open and "close" would never come.
+    const child = spawn(file, argv, {
+      env: opts.env ?? process.env,
+      stdio: ["ignore", "pipe", "pipe"],
+      detached: true,
+    });
+
+    // Buffers, decoded once at the end, so multi-byte characters split across chunks survive.
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    let bytes = 0;
+    let killed: ProcessResult["killed"];
+    let forceKill: NodeJS.Timeout | undefined;
+
+    function signal(name: NodeJS.Signals) {
+      try {
+        if (child.pid) process.kill(-child.pid, name);
+      } catch {
+        // Already gone.
+      }
+    }
+
+    function kill(reason: NonNullable<ProcessResult["killed"]>) {
+      if (killed) return;
+      killed = reason;
+      signal("SIGTERM");
+      forceKill = setTimeout(() => signal("SIGKILL"), KILL_GRACE_MS);
+    }
+
+    function collect(into: Buffer[]) {
+      return (chunk: Buffer) => {
+        if (killed) return;
+        bytes += chunk.length;
+        if (maxOutputBytes > 0 && bytes > maxOutputBytes) kill("output");
+        else into.push(chunk);
+      };
+    }
+
+    const timer = timeoutMs > 0 ? setTimeout(() => kill("timeout"), timeoutMs) : undefined;
+
+    child.stdout.on("data", collect(stdout));
+    child.stderr.on("data", collect(stderr));
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      clearTimeout(forceKill);
+      resolve({
+        timeoutMs,
+        maxOutputBytes,
+        code: killed ? null : code,
+        stdout: Buffer.concat(stdout).toString("utf8"),
+        stderr: Buffer.concat(stderr).toString("utf8"),
+        ...(killed ? { killed } : {}),
+      });
+    });
+    child.on("error", (err) => {
+      clearTimeout(timer);
+      clearTimeout(forceKill);
+      resolve({ timeoutMs, maxOutputBytes, code: -1, stdout: "", stderr: String(err) });
+    });
+  });
+}
+
+/** Run `bin` once a slot is free. Never rejects; look at `code` and `killed`. */
+export async function runProcess(bin: string, args: string[], opts: ProcessOptions = {}): Promise<ProcessResult> {
+  await acquire();
+  try {
+    return await exec(bin, args, opts);
+  } finally {
+    release();
+  }
+}
+
+function formatBytes(n: number) {
+  if (n >= 1024 * 1024) return `${Math.round((n / 1024 / 1024) * 10) / 10} MB`;
+  if (n >= 1024) return `${Math.round((n / 1024) * 10) / 10} KB`;
+  return `${n} bytes`;
+}
+
+/** One line on why a run failed, for error messages and skip reports. */
+export function describeFailure(result: ProcessResult) {
+  if (result.killed === "timeout") return `timed out after ${result.timeoutMs / 1000} s`;
+  if (result.killed === "output") return `printed more than ${formatBytes(result.maxOutputBytes)}`;
+  const output = (result.stderr || result.stdout).trim().slice(0, 500);
+  return `exit code ${result.code}${output ? `: ${output}` : ""}`;
+}
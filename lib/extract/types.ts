@@ -0,0 +1,40 @@
+// lib/extract/types.ts
+
+export type BackendName = "poppler" | "pdfjs";
+
+export type ExtractionDebug = {
+  backend: BackendName;
+  /** Why a preferred backend was skipped, when one was. */
+  fallback?: string;
+  platform: string;
+  arch: string;
+  [detail: string]: unknown;
+};
+
+export type OcrPage = {
+  page: number;
+  /** Mean Tesseract word confidence, 0–100. */
+  confidence: number;
+  chars: number;
+};
+
+export type OcrReport = {
+  pages: OcrPage[];
+  /** Set when scanned pages were found but could not be OCR'd. */
+  skipped?: string;
+};
+
+export type Extraction = {
+  /** Page texts joined with form feeds (\f), the way pdftotext emits them. */
+  text: string;
+  debug: ExtractionDebug;
+  /** Present when some pages had no text layer. */
+  ocr?: OcrReport;
+};
+
+export interface ExtractionBackend {
+  readonly name: BackendName;
+  /** Cheap check whether this backend can run here at all. */
+  available(): Promise<boolean>;
+  extract(pdfBuffer: Buffer): Promise<Extraction>;
+}
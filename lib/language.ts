@@ -0,0 +1,136 @@
+// lib/language.ts
+//
+// Which language a document is written in (detected from the extracted text) and
+// which one the student wants explanations in. Detection is a cheap heuristic: the
+// dominant script, then common function words for Latin-script languages. Good enough
+// to tell the model "this is a Spanish paper", which is all the prompt needs.
+
+export const OUTPUT_LANGUAGES = [
+  { code: "en", name: "English", native: "English" },
+  { code: "es", name: "Spanish", native: "Español" },
+  { code: "fr", name: "French", native: "Français" },
+  { code: "de", name: "German", native: "Deutsch" },
+  { code: "pt", name: "Portuguese", native: "Português" },
+  { code: "it", name: "Italian", native: "Italiano" },
+  { code: "nl", name: "Dutch", native: "Nederlands" },
+  { code: "tr", name: "Turkish", native: "Türkçe" },
+  { code: "vi", name: "Vietnamese", native: "Tiếng Việt" },
+  { code: "ru", name: "Russian", native: "Русский" },
+  { code: "ar", name: "Arabic", native: "العربية" },
+  { code: "hi", name: "Hindi", native: "हिन्दी" },
+  { code: "ko", name: "Korean", native: "한국어" },
+  { code: "ja", name: "Japanese", native: "日本語" },
+  { code: "zh", name: "Chinese (Simplified)", native: "简体中文" },
+] as const;
+
+export type LanguageCode = (typeof OUTPUT_LANGUAGES)[number]["code"];
+/** "source" answers in whatever language the document is in. */
+export type OutputLanguage = LanguageCode | "source";
+
+/** Every value the `language` field of a request or a stored message may take. */
+export const OUTPUT_LANGUAGE_CODES: readonly OutputLanguage[] = ["source", ...OUTPUT_LANGUAGES.map((l) => l.code)];
+
+export type DetectedLanguage = {
+  /** ISO 639-1 code, or "und" when there's too little text to tell. */
+  code: string;
+  name: string;
+  /** 0–1: share of the evidence that points at `code`. */
+  confidence: number;
+};
+
+const OTHER_NAMES: Record<string, string> = { el: "Greek", he: "Hebrew", th: "Thai", und: "Unknown" };
+
+export function languageName(code: string) {
+  return OUTPUT_LANGUAGES.find((l) => l.code === code)?.name ?? OTHER_NAMES[code] ?? code;
+}
+
+const SCRIPTS: Array<[string, RegExp]> = [
+  ["ko", /\p{Script=Hangul}/gu],
+  ["kana", /[\p{Script=Hiragana}\p{Script=Katakana}]/gu],
+  ["han", /\p{Script=Han}/gu],
+  ["ru", /\p{Script=Cyrillic}/gu],
+  ["ar", /\p{Script=Arabic}/gu],
+  ["el", /\p{Script=Greek}/gu],
+  ["he", /\p{Script=Hebrew}/gu],
+  ["hi", /\p{Script=Devanagari}/gu],
+  ["th", /\p{Script=Thai}/gu],
+  ["latin", /\p{Script=Latin}/gu],
+];
+
+// The most frequent short words of each language; overlaps ("de", "la") are fine
+// because the scores are compared, not thresholded.
+const FUNCTION_WORDS: Record<string, string[]> = {
+  en: ["the", "of", "and", "to", "in", "is", "that", "for", "with", "as", "are", "this", "by", "be", "on", "which"],
+  es: ["el", "la", "de", "que", "y", "en", "los", "las", "del", "se", "por", "un", "una", "con", "para", "es"],
+  fr: ["le", "la", "les", "de", "des", "et", "est", "que", "une", "dans", "pour", "pas", "sur", "du", "au", "qui"],
+  de: ["der", "die", "und", "das", "ist", "nicht", "ein", "eine", "zu", "den", "von", "mit", "sich", "des", "auf", "im"],
+  pt: ["de", "que", "não", "uma", "os", "das", "dos", "com", "para", "por", "em", "é", "ao", "da", "do", "se"],
+  it: ["il", "di", "che", "la", "è", "per", "una", "con", "non", "sono", "del", "della", "gli", "le", "nel", "un"],
+  nl: ["de", "het", "een", "van", "en", "is", "dat", "op", "te", "zijn", "voor", "met", "niet", "die", "in", "wordt"],
+  tr: ["ve", "bir", "bu", "için", "ile", "da", "de", "olarak", "olan", "daha", "gibi", "çok", "ise", "kadar", "her"],
+  vi: ["của", "và", "các", "là", "có", "trong", "được", "cho", "với", "này", "những", "một", "không", "người", "để"],
+};
+
+const SAMPLE_CHARS = 20_000;
+const MIN_LETTERS = 40;
+
+// Front matter is often in English even in non-English papers, so look at the middle too.
+function sample(text: string) {
+  if (text.length <= SAMPLE_CHARS) return text;
+  const part = SAMPLE_CHARS / 2;
+  const mid = Math.floor(text.length / 2);
+  return text.slice(0, part) + "\n" + text.slice(mid, mid + part);
+}
+
+function latinLanguage(text: string): DetectedLanguage {
+  const words = text.toLowerCase().match(/\p{L}+/gu) ?? [];
+  const scores = Object.entries(FUNCTION_WORDS).map(([code, list]) => {
+    const set = new Set(list);
+    return [code, words.filter((w) => set.has(w)).length] as const;
+  });
+  const total = scores.reduce((acc, [, n]) => acc + n, 0);
+  const [code, best] = scores.reduce((a, b) => (b[1] > a[1] ? b : a));
+  if (best === 0) return { code: "und", name: languageName("und"), confidence: 0 };
+  return { code, name: languageName(code), confidence: Number((best / total).toFixed(2)) };
+}
+
+export function detectLanguage(text: string): DetectedLanguage {
+  const s = sample(text);
+  const counts = new Map(SCRIPTS.map(([name, re]) => [name, s.match(re)?.length ?? 0]));
+  const letters = [...counts.values()].reduce((a, b) => a + b, 0);
+  if (letters < MIN_LETTERS) return { code: "und", name: languageName("und"), confidence: 0 };
+
+  // Japanese mixes kana into Han text; Chinese has (almost) none.
+  const kana = counts.get("kana") ?? 0;
+  const han = counts.get("han") ?? 0;
+  if (kana + han > 0) {
+    counts.set(kana > (kana + han) * 0.15 ? "ja" : "zh", kana + han);
+    counts.delete("kana");
+    counts.delete("han");
+  }
+
+  const [script, n] = [...counts.entries()].reduce((a, b) => (b[1] > a[1] ? b : a));
+  if (script === "latin") return latinLanguage(s);
+  return { code: script, name: languageName(script), confidence: Number((n / letters).toFixed(2)) };
+}
+
+/**
+ * The prompt rule for answering in `target` about a document in `source`. Across
+ * languages, technical terms keep their original form in parentheses so the student
+ * can still find them in the PDF.
+ */
+export function languageInstruction(target: OutputLanguage, source: DetectedLanguage) {
+  const known = source.code !== "und";
+  if (target === "source" || (known && target === source.code)) {
+    return known ? `Write in ${source.name}, the language of the document.` : "Write in the language of the document.";
+  }
+
+  const name = languageName(target);
+  const from = known ? `The document is in ${source.name}; explain it in ${name}` : `If the document is in another language, explain it in ${name}`;
+  return `Write in ${name}. ${from}, but keep technical terms, names and notation in their original form in parentheses after the ${name} term the first time they appear. Quote the original wording when the exact phrasing matters.`;
+}
+
+/** What the prompt used, reported back with each result. */
+export function languageInfo(target: OutputLanguage, source: DetectedLanguage) {
+  return { source: source.code, target: target === "source" ? source.code : target };
+}
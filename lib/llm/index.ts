@@ -0,0 +1,79 @@
+// lib/llm/index.ts
+//
+// Provider selection. Per deployment via LLM_PROVIDER; per request via the `provider`
+// form field, limited to providers this deployment has configured.
+//
+//   openai  OPENAI_API_KEY, OPENAI_MODEL
+//   local   LOCAL_LLM_BASE_URL (e.g. http://localhost:11434/v1), LOCAL_LLM_MODEL,
+//           LOCAL_LLM_API_KEY (optional; most local servers ignore it)
+//   mock    always available; the default when nothing else is configured
+import { AppError } from "../errors";
+import { createMockProvider } from "./mock";
+import { createOpenAIProvider } from "./openai";
+import type { LlmProvider, ProviderName } from "./types";
+
+export type { CompletionRequest, LlmMessage, LlmProvider, ProviderName } from "./types";
+export { parseJsonReply } from "./json";
+
+const PROVIDER_NAMES: ProviderName[] = ["openai", "local", "mock"];
+
+export class ProviderConfigError extends AppError {
+  constructor(message: string, status?: number) {
+    super("LLM_NOT_CONFIGURED", message, { status });
+    this.name = "ProviderConfigError";
+  }
+}
+
+function isProviderName(x: string): x is ProviderName {
+  return (PROVIDER_NAMES as string[]).includes(x);
+}
+
+export function configuredProviders(): ProviderName[] {
+  return PROVIDER_NAMES.filter((name) => {
+    if (name === "openai") return !!process.env.OPENAI_API_KEY;
+    if (name === "local") return !!process.env.LOCAL_LLM_BASE_URL;
+    return true;
+  });
+}
+
+function defaultProvider(): ProviderName {
+  const configured = process.env.LLM_PROVIDER?.trim();
+  if (configured) {
+    if (!isProviderName(configured)) {
+      throw new ProviderConfigError(`LLM_PROVIDER "${configured}" is not one of ${PROVIDER_NAMES.join(", ")}.`);
+    }
+    return configured;
+  }
+  // Dev-friendly fallback if no key is set
+  return process.env.OPENAI_API_KEY ? "openai" : "mock";
+}
+
+export function getProvider(requested?: string): LlmProvider {
+  const name = requested?.trim() || defaultProvider();
+
+  if (!isProviderName(name)) {
+    throw new ProviderConfigError(`Unknown provider "${name}".`, 400);
+  }
+  if (!configuredProviders().includes(name)) {
+    const missing = name === "openai" ? "OPENAI_API_KEY" : "LOCAL_LLM_BASE_URL";
+    throw new ProviderConfigError(`Provider "${name}" is not configured on this deployment (${missing} is not set).`);
+  }
+
+  switch (name) {
+    case "openai":
+      return createOpenAIProvider({
+        name,
+        apiKey: process.env.OPENAI_API_KEY || "",
+        model: process.env.OPENAI_MODEL || "gpt-4.1-mini",
+      });
+    case "local":
+      return createOpenAIProvider({
+        name,
+        apiKey: process.env.LOCAL_LLM_API_KEY || "local",
+        baseURL: process.env.LOCAL_LLM_BASE_URL,
+        model: process.env.LOCAL_LLM_MODEL || "llama3.1",
+      });
+    case "mock":
+      return createMockProvider();
+  }
+}
@@ -0,0 +1,14 @@
+// lib/llm/json.ts
+
+/** The first JSON value in a model reply, tolerating code fences and chatter around it. */
+export function parseJsonReply(reply: string): unknown {
+  const body = reply.replace(/^```(?:json)?\s*|\s*```\s*$/g, "");
+  const start = body.search(/[[{]/);
+  if (start === -1) return null;
+  const end = Math.max(body.lastIndexOf("]"), body.lastIndexOf("}"));
+  try {
+    return JSON.parse(body.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,59 @@
+// lib/llm/mock.ts
+import type { CompletionRequest, LlmProvider } from "./types";
+
+/** What the mock answers to a breakdown prompt (lib/breakdown.ts). */
+export const MOCK_BREAKDOWN = {
+  claim: "MOCK claim (no LLM called).",
+  phrases: [{ phrase: "mock phrase", meaning: "what it means here" }],
+  references: [{ term: "it", refersTo: "the mock subject", page: 1 }],
+  whyItMatters: "It lets the JSON paths run offline.",
+  pages: [1],
+};
+
+/** What the mock answers to a study prompt, which asks for {"cards": [...]} (lib/study.ts). */
+export const MOCK_CARDS = {
+  cards: [
+    {
+      kind: "mcq",
+      question: "Which provider wrote this card?",
+      choices: ["mock", "openai", "local"],
+      answer: 0,
+      explanation: "No LLM was called.",
+      page: 1,
+    },
+    { kind: "cloze", text: "This card comes from the {{c1::mock}} provider.", page: 1 },
+    { kind: "qa", question: "Was an LLM called?", answer: "No.", page: 1 },
+  ],
+};
+
+// The JSON shape a prompt asks for, told apart by the schema it spells out.
+function mockJson(prompt: string) {
+  return prompt.includes('{"cards":') ? MOCK_CARDS : MOCK_BREAKDOWN;
+}
+
+/**
+ * Deterministic stand-in for tests and key-less development: echoes the prompt it was
+ * given (or, when JSON is requested, the fixture for the schema the prompt describes),
+ * streamed word by word, so the whole pipeline can be exercised offline.
+ */
+export function createMockProvider(): LlmProvider {
+  return {
+    name: "mock",
+    model: "mock-echo",
+    async *stream({ messages, json, signal }: CompletionRequest) {
+      const turns = messages
+        .filter((m) => m.role !== "system")
+        .map((m) => `${m.role.toUpperCase()}:\n${m.content}`)
+        .join("\n\n");
+
+      const output = json
+        ? JSON.stringify(mockJson(messages.map((m) => m.content).join("\n")), null, 2)
+        : `MOCK AI OUTPUT (no LLM called)\n\n${turns}`.slice(0, 6000);
+
+      for (const piece of output.match(/\S+\s*|\s+/g) || []) {
+        signal?.throwIfAborted();
+        yield piece;
+      }
+    },
+  };
+}
@@ -0,0 +1,83 @@
+// lib/llm/openai.ts
+import OpenAI, {
+  APIConnectionError,
+  APIConnectionTimeoutError,
+  APIError,
+  APIUserAbortError,
+  AuthenticationError,
+  PermissionDeniedError,
+  RateLimitError,
+} from "openai";
+import { AppError } from "../errors";
+import type { CompletionRequest, LlmProvider, ProviderName } from "./types";
+
+/** Until the first byte of the answer; the SDK retries twice before giving up. */
+function timeoutMs() {
+  const n = Number(process.env.LLM_TIMEOUT_MS);
+  return Number.isFinite(n) && n > 0 ? n : 60_000;
+}
+
+// The SDK's errors as the codes the UI understands (see lib/errors.ts).
+function toAppError(err: unknown, where: string): unknown {
+  // Cancelled on purpose; nobody is waiting for an error.
+  if (err instanceof APIUserAbortError) return err;
+  if (err instanceof APIConnectionTimeoutError) {
+    return new AppError("LLM_TIMEOUT", `${where} did not answer within ${timeoutMs() / 1000} s.`);
+  }
+  if (err instanceof APIConnectionError) {
+    return new AppError("LLM_UNAVAILABLE", `Could not connect to ${where}: ${err.message}`);
+  }
+  if (err instanceof AuthenticationError || err instanceof PermissionDeniedError) {
+    return new AppError("LLM_AUTH_FAILED", `${where}: ${err.message}`);
+  }
+  if (err instanceof RateLimitError) {
+    const seconds = Number(err.headers?.get("retry-after"));
+    return new AppError("LLM_RATE_LIMITED", `${where}: ${err.message}`, {
+      retryAfter: Number.isFinite(seconds) && seconds > 0 ? Math.ceil(seconds) : undefined,
+    });
+  }
+  if (err instanceof APIError) {
+    return new AppError("LLM_UNAVAILABLE", `${where}: ${err.message}`);
+  }
+  return err;
+}
+
+/**
+ * OpenAI itself, or anything speaking its chat-completions API (Ollama, llama.cpp
+ * server, vLLM, LM Studio…) when `baseURL` points at it.
+ */
+export function createOpenAIProvider(opts: {
+  name: ProviderName;
+  apiKey: string;
+  model: string;
+  baseURL?: string;
+}): LlmProvider {
+  const client = new OpenAI({ apiKey: opts.apiKey, baseURL: opts.baseURL, timeout: timeoutMs() });
+  const where = `${opts.name}/${opts.model}`;
+
+  return {
+    name: opts.name,
+    model: opts.model,
+    async *stream({ messages, temperature = 0.3, json, signal }: CompletionRequest) {
+      try {
+        const stream = await client.chat.completions.create(
+          {
+            model: opts.model,
+            temperature,
+            stream: true,
+            messages,
+            ...(json ? { response_format: { type: "json_object" as const } } : {}),
+          },
+          { signal }
+        );
+
+        for await (const chunk of stream) {
+          const text = chunk.choices?.[0]?.delta?.content;
+          if (text) yield text;
+        }
+      } catch (err) {
+        throw toAppError(err, where);
+      }
+    },
+  };
+}
@@ -0,0 +1,21 @@
+// lib/llm/types.ts
+
+export type ProviderName = "openai" | "local" | "mock";
+
+export type LlmMessage = { role: "system" | "user" | "assistant"; content: string };
+
+export type CompletionRequest = {
+  messages: LlmMessage[];
+  temperature?: number;
+  /** Ask for a single JSON object (the prompt must describe it and say "JSON"). */
+  json?: boolean;
+  /** Cancels the completion upstream, e.g. when the user presses Stop. */
+  signal?: AbortSignal;
+};
+
+export interface LlmProvider {
+  readonly name: ProviderName;
+  readonly model: string;
+  /** Yields the completion text piece by piece. */
+  stream(req: CompletionRequest): AsyncIterable<string>;
+}
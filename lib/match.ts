@@ -0,0 +1,255 @@
+// lib/match.ts
+//
+// Locating a highlight in `pdftotext -layout` output. The layout text wraps lines,
+// hyphenates words, pads columns and keeps ligatures/smart quotes, while the highlight
+// comes from a browser selection (or a paste), so both sides are normalized first and
+// every normalized character keeps a pointer back to its offset in the original text.
+
+export type HighlightMatch = {
+  /** Offsets into the original (un-normalized) text. */
+  start: number;
+  end: number;
+  /** 1 = exact after normalization; lower = fuzzy (1 - edits / highlight length). */
+  score: number;
+};
+
+type Normalized = {
+  norm: string;
+  /** map[i] = offset in the original text of norm[i] */
+  map: number[];
+};
+
+const MIN_SCORE = 0.72;
+// Edit-distance work is O(needle × window), so long highlights are matched by their ends.
+const SEGMENT_CHARS = 240;
+const MAX_CANDIDATES = 60;
+
+const CHAR_FOLDS: Record<string, string> = {
+  "\u2018": "'", // ‘
+  "\u2019": "'", // ’
+  "\u201A": "'", // ‚
+  "\u201B": "'", // ‛
+  "\u2032": "'", // ′
+  "\u201C": '"', // “
+  "\u201D": '"', // ”
+  "\u201E": '"', // „
+  "\u201F": '"', // ‟
+  "\u2033": '"', // ″
+  "\u2010": "-", // hyphen
+  "\u2011": "-", // non-breaking hyphen
+  "\u2012": "-", // figure dash
+  "\u2013": "-", // en dash
+  "\u2014": "-", // em dash
+  "\u2212": "-", // minus sign
+};
+
+function isLetter(ch: string | undefined) {
+  return !!ch && /\p{L}/u.test(ch);
+}
+
+export function normalizeForMatch(text: string): Normalized {
+  let norm = "";
+  const map: number[] = [];
+  let pendingSpace = -1;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    // Soft hyphens never matter.
+    if (ch === "\u00AD") continue;
+
+    if (/\s/.test(ch)) {
+      if (pendingSpace === -1) pendingSpace = i;
+      continue;
+    }
+
+    const folded = CHAR_FOLDS[ch] ?? ch;
+
+    // "exam-\n    ple" -> "example": a hyphen at a line end between two letters.
+    if (folded === "-" && isLetter(text[i - 1])) {
+      let j = i + 1;
+      let sawNewline = false;
+      while (j < text.length && /\s/.test(text[j])) {
+        if (text[j] === "\n" || text[j] === "\r" || text[j] === "\f") sawNewline = true;
+        j++;
+      }
+      if (sawNewline && isLetter(text[j]) && text[j] === text[j].toLowerCase()) {
+        i = j - 1;
+        continue;
+      }
+    }
+
+    if (pendingSpace !== -1) {
+      if (norm.length > 0) {
+        norm += " ";
+        map.push(pendingSpace);
+      }
+      pendingSpace = -1;
+    }
+
+    // NFKC expands ligatures (ﬁ -> fi) and full-width forms; every piece maps to `i`.
+    const expanded = folded.normalize("NFKC").toLowerCase();
+    for (const piece of expanded) {
+      for (let k = 0; k < piece.length; k++) {
+        norm += piece[k];
+        map.push(i);
+      }
+    }
+  }
+
+  return { norm, map };
+}
+
+/**
+ * Best approximate occurrence of `needle` inside `hay[from, to)` (Sellers' algorithm:
+ * edit distance where the match may start and end anywhere in the window).
+ */
+function bestApproximate(hay: string, from: number, to: number, needle: string) {
+  const m = needle.length;
+  let prevCost = new Array<number>(m + 1);
+  let prevStart = new Array<number>(m + 1);
+  let curCost = new Array<number>(m + 1);
+  let curStart = new Array<number>(m + 1);
+
+  for (let i = 0; i <= m; i++) {
+    prevCost[i] = i;
+    prevStart[i] = from;
+  }
+
+  let best = { dist: prevCost[m], start: from, end: from };
+
+  for (let j = from; j < to; j++) {
+    const c = hay[j];
+    curCost[0] = 0;
+    curStart[0] = j + 1;
+
+    for (let i = 1; i <= m; i++) {
+      const sub = prevCost[i - 1] + (needle[i - 1] === c ? 0 : 1);
+      const del = prevCost[i] + 1;
+      const ins = curCost[i - 1] + 1;
+
+      if (sub <= del && sub <= ins) {
+        curCost[i] = sub;
+        curStart[i] = prevStart[i - 1];
+      } else if (del <= ins) {
+        curCost[i] = del;
+        curStart[i] = prevStart[i];
+      } else {
+        curCost[i] = ins;
+        curStart[i] = curStart[i - 1];
+      }
+    }
+
+    if (curCost[m] < best.dist) {
+      best = { dist: curCost[m], start: curStart[m], end: j + 1 };
+    }
+
+    [prevCost, curCost] = [curCost, prevCost];
+    [prevStart, curStart] = [curStart, prevStart];
+  }
+
+  return best;
+}
+
+/** Rough start positions for `segment`, seeded from its rarest words. */
+function candidateStarts(norm: string, segment: string) {
+  const words: Array<{ word: string; offset: number }> = [];
+  let offset = 0;
+  for (const word of segment.split(" ")) {
+    if (word.length >= 4) words.push({ word, offset });
+    offset += word.length + 1;
+  }
+
+  const occurrences = words.map(({ word, offset }) => {
+    const hits: number[] = [];
+    let idx = norm.indexOf(word);
+    while (idx !== -1 && hits.length <= MAX_CANDIDATES) {
+      hits.push(idx - offset);
+      idx = norm.indexOf(word, idx + 1);
+    }
+    return hits;
+  });
+
+  // Rare anchors are the informative ones; skip words that are everywhere.
+  const ranked = occurrences
+    .filter((hits) => hits.length > 0 && hits.length <= MAX_CANDIDATES)
+    .sort((a, b) => a.length - b.length)
+    .slice(0, 4);
+
+  const slack = Math.max(12, Math.floor(segment.length * 0.2));
+  const starts: number[] = [];
+  for (const hits of ranked) {
+    for (const s of hits) {
+      if (starts.every((x) => Math.abs(x - s) > slack)) starts.push(s);
+      if (starts.length >= MAX_CANDIDATES) return starts;
+    }
+  }
+  return starts;
+}
+
+function fuzzySegment(norm: string, segment: string, near?: { from: number; to: number }) {
+  const slack = Math.max(12, Math.floor(segment.length * 0.25));
+  const windows = near
+    ? [near]
+    : candidateStarts(norm, segment).map((s) => ({
+        from: Math.max(0, s - slack),
+        to: Math.min(norm.length, s + segment.length + slack),
+      }));
+
+  let best: { dist: number; start: number; end: number } | null = null;
+  for (const w of windows) {
+    const hit = bestApproximate(norm, w.from, w.to, segment);
+    if (!best || hit.dist < best.dist) best = hit;
+    if (best.dist === 0) break;
+  }
+  return best;
+}
+
+function toOriginal(map: number[], textLength: number, normStart: number, normEnd: number) {
+  const start = map[normStart] ?? 0;
+  const end = normEnd > 0 ? (map[normEnd - 1] ?? textLength - 1) + 1 : start;
+  return { start, end };
+}
+
+/**
+ * Locate `highlight` in `text`, tolerating line breaks, hyphenation, ligatures, smart
+ * quotes, column padding and a few character-level differences.
+ */
+export function findHighlight(text: string, highlight: string): HighlightMatch | null {
+  const needle = normalizeForMatch(highlight).norm;
+  if (!needle) return null;
+
+  const { norm, map } = normalizeForMatch(text);
+
+  const exact = norm.indexOf(needle);
+  if (exact !== -1) {
+    return { ...toOriginal(map, text.length, exact, exact + needle.length), score: 1 };
+  }
+
+  if (needle.length <= SEGMENT_CHARS) {
+    const hit = fuzzySegment(norm, needle);
+    if (!hit) return null;
+    const score = 1 - hit.dist / needle.length;
+    if (score < MIN_SCORE) return null;
+    return { ...toOriginal(map, text.length, hit.start, hit.end), score };
+  }
+
+  // Long highlight: anchor the head, then look for the tail roughly where it should end.
+  const head = needle.slice(0, SEGMENT_CHARS);
+  const tail = needle.slice(-SEGMENT_CHARS);
+
+  const headHit = fuzzySegment(norm, head);
+  if (!headHit) return null;
+
+  const expectedTailStart = headHit.start + needle.length - tail.length;
+  const slack = Math.floor(needle.length * 0.2) + 12;
+  const tailHit = fuzzySegment(norm, tail, {
+    from: Math.max(headHit.start, expectedTailStart - slack),
+    to: Math.min(norm.length, expectedTailStart + tail.length + slack),
+  });
+  if (!tailHit) return null;
+
+  const score = 1 - (headHit.dist + tailHit.dist) / (head.length + tail.length);
+  if (score < MIN_SCORE) return null;
+  return { ...toOriginal(map, text.length, headHit.start, tailHit.end), score };
+}
@@ -0,0 +1,141 @@
+// lib/outline.ts
+//
+// A document's table of contents: the PDF's bookmarks when it has them, otherwise
+// headings inferred from numbered lines ("3.2 Sampling") in the extracted text. Each
+// entry is pinned to a text offset so a highlight can be placed in its section.
+import { readBookmarks } from "./extract";
+import { pageAt } from "./pages";
+
+export type OutlineEntry = {
+  title: string;
+  /** 1 = top-level section. */
+  level: number;
+  page: number;
+  /** Offset of the heading in the document text (page start when it can't be found). */
+  start: number;
+};
+
+export type Outline = {
+  source: "bookmarks" | "headings";
+  entries: OutlineEntry[];
+};
+
+const MAX_HEADING_WORDS = 12;
+
+// Unnumbered headings that papers and reports use often enough to trust.
+const NAMED_HEADING_RE =
+  /^(abstract|introduction|background|related work|methods?|methodology|results|discussion|conclusions?|acknowledge?ments|references|bibliography|appendix(?: [a-z])?)$/i;
+
+const NUMBERED_HEADING_RE = /^[ \t\f]*(\d{1,2}(?:\.\d{1,2}){0,3})\.?[ \t]+(\p{Lu}[^\n]*?)[ \t]*$/gmu;
+
+function lineAt(text: string, offset: number) {
+  const end = text.indexOf("\n", offset);
+  return text.slice(offset, end === -1 ? text.length : end);
+}
+
+function looksLikeHeading(title: string) {
+  const words = title.split(/\s+/);
+  if (words.length > MAX_HEADING_WORDS) return false;
+  // Sentences, table rows and figure captions are the usual false positives.
+  if (/[.;,:]$/.test(title)) return false;
+  // A table-of-contents line: "Introduction . . . . 3".
+  if (/(\.\s*){3,}\d+$|\s{2,}\d+$/.test(title)) return false;
+  if ((title.match(/\d/g) || []).length > title.length / 3) return false;
+  return !/^(figure|fig\.|table|eq\.)/i.test(title);
+}
+
+/**
+ * Numbered headings in reading order. Section numbers have to move forward (1, 1.1,
+ * 1.2, 2, …) so list items and stray numbers inside paragraphs don't get in.
+ */
+export function inferOutline(text: string, pageStarts: number[]): OutlineEntry[] {
+  const entries: OutlineEntry[] = [];
+  let last: number[] = [0];
+
+  for (const m of text.matchAll(NUMBERED_HEADING_RE)) {
+    const parts = m[1].split(".").map(Number);
+    const title = m[2].replace(/\s+/g, " ");
+    if (!looksLikeHeading(title)) continue;
+
+    // Accept the next sibling or child of the previous heading (skipping at most one number).
+    const prefix = parts.slice(0, -1);
+    const n = parts[parts.length - 1];
+    const prev = last.slice(0, parts.length);
+    const samePrefix = prefix.every((p, i) => p === last[i]);
+    const sibling = samePrefix && (prev[parts.length - 1] ?? 0) < n && n <= (prev[parts.length - 1] ?? 0) + 2;
+    if (!sibling) continue;
+
+    const start = m.index + m[0].length - m[0].trimStart().length;
+    entries.push({ title: `${m[1]} ${title}`, level: parts.length, page: pageAt(pageStarts, start), start });
+    last = parts;
+  }
+
+  // Fall back to the handful of headings every paper has.
+  if (entries.length === 0) {
+    for (const m of text.matchAll(/^[ \t\f]*([^\n]{4,40}?)[ \t]*$/gm)) {
+      if (!NAMED_HEADING_RE.test(m[1])) continue;
+      const start = m.index + m[0].indexOf(m[1]);
+      entries.push({ title: m[1], level: 1, page: pageAt(pageStarts, start), start });
+    }
+  }
+
+  return entries;
+}
+
+function normalize(s: string) {
+  return s.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/** Place each bookmark at its heading's line on the target page, if it's there. */
+function pinBookmarks(
+  text: string,
+  pageStarts: number[],
+  bookmarks: Array<{ title: string; level: number; page: number }>
+): OutlineEntry[] {
+  return bookmarks
+    .filter((b) => b.page <= pageStarts.length)
+    .map((b) => {
+      const pageStart = pageStarts[b.page - 1];
+      const pageEnd = pageStarts[b.page] ?? text.length;
+      const needle = normalize(b.title).slice(0, 40);
+
+      let start = pageStart;
+      for (let i = pageStart; i < pageEnd; i = text.indexOf("\n", i) + 1 || pageEnd) {
+        if (normalize(lineAt(text, i)).includes(needle)) {
+          start = i;
+          break;
+        }
+      }
+      return { ...b, start };
+    });
+}
+
+/** Bookmarks when the PDF has any, inferred headings otherwise. */
+export async function buildOutline(
+  pdfBuffer: Buffer,
+  text: string,
+  pageStarts: number[]
+): Promise<Outline> {
+  // An unreadable outline is no reason to fail the upload.
+  const bookmarks = await readBookmarks(pdfBuffer).catch(() => []);
+  if (bookmarks.length > 0) {
+    return { source: "bookmarks", entries: pinBookmarks(text, pageStarts, bookmarks) };
+  }
+  return { source: "headings", entries: inferOutline(text, pageStarts) };
+}
+
+/** The chain of entries containing `offset`, outermost first. */
+export function sectionPath(entries: OutlineEntry[], offset: number): OutlineEntry[] {
+  const path: OutlineEntry[] = [];
+  for (const e of [...entries].sort((a, b) => a.start - b.start)) {
+    if (e.start > offset) break;
+    while (path.length > 0 && path[path.length - 1].level >= e.level) path.pop();
+    path.push(e);
+  }
+  return path;
+}
+
+/** "4.1 Methods › Sampling" */
+export function formatSection(path: OutlineEntry[]) {
+  return path.map((e) => e.title).join(" › ");
+}
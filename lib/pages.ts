@@ -0,0 +1,63 @@
+// lib/pages.ts
+//
+// pdftotext ends every page with a form feed (\f), so page boundaries survive in the
+// flat text; we keep the start offset of each page alongside it.
+
+export type PageRange = [first: number, last: number];
+
+/** Start offset of each page (index 0 = page 1). */
+export function pageOffsets(text: string) {
+  const starts = [0];
+  for (let i = text.indexOf("\f"); i !== -1; i = text.indexOf("\f", i + 1)) {
+    if (i + 1 < text.length) starts.push(i + 1);
+  }
+  return starts;
+}
+
+/** 1-based page number containing `offset`. */
+export function pageAt(pageStarts: number[], offset: number) {
+  let lo = 0;
+  let hi = pageStarts.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (pageStarts[mid] <= offset) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo + 1;
+}
+
+export function pageRange(pageStarts: number[], start: number, end: number): PageRange {
+  return [pageAt(pageStarts, start), pageAt(pageStarts, Math.max(start, end - 1))];
+}
+
+/** Offsets [start, end) covering pages `first..last` (1-based, clamped). */
+export function pageSpan(pageStarts: number[], textLength: number, first: number, last: number) {
+  const a = Math.min(Math.max(first, 1), pageStarts.length);
+  const b = Math.min(Math.max(last, a), pageStarts.length);
+  return {
+    start: pageStarts[a - 1],
+    end: b < pageStarts.length ? pageStarts[b] : textLength,
+  };
+}
+
+/**
+ * `text[start, end)` with a "[p. N]" marker wherever a page begins, so the model can
+ * cite where each statement comes from.
+ */
+export function withPageMarkers(text: string, pageStarts: number[], start: number, end: number) {
+  const first = pageAt(pageStarts, start);
+  let out = `[p. ${first}]\n`;
+  let cursor = start;
+
+  for (let p = first; p < pageStarts.length && pageStarts[p] < end; p++) {
+    out += text.slice(cursor, pageStarts[p]).replace(/\f/g, "");
+    out += `\n[p. ${p + 1}]\n`;
+    cursor = pageStarts[p];
+  }
+  out += text.slice(cursor, end).replace(/\f/g, "");
+  return out;
+}
+
+export function formatPages([first, last]: PageRange) {
+  return first === last ? `p. ${first}` : `pp. ${first}–${last}`;
+}
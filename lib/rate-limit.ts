@@ -0,0 +1,46 @@
+// lib/rate-limit.ts
+//
+// Per-client request limiting, in memory: a sliding one-minute window of timestamps per
+// key. Each server instance counts on its own, which is enough to stop a runaway tab or
+// script from burning through the LLM budget; it is not abuse protection for a fleet.
+import { AppError } from "./errors";
+import { limits } from "./validation";
+
+const WINDOW_MS = 60_000;
+const MAX_KEYS = 10_000;
+
+const hits = new Map<string, number[]>();
+
+/** Best guess at who is asking: the proxy's client address, else one shared bucket. */
+export function clientKey(req: Request) {
+  const forwarded = req.headers.get("x-forwarded-for")?.split(",")[0]?.trim();
+  return forwarded || req.headers.get("x-real-ip")?.trim() || "local";
+}
+
+function prune(now: number) {
+  for (const [key, times] of hits) {
+    if (times[times.length - 1] <= now - WINDOW_MS) hits.delete(key);
+  }
+}
+
+/** Count a request against `key`; throws RATE_LIMITED when over RATE_LIMIT_PER_MINUTE. */
+export function rateLimit(key: string) {
+  const perMinute = limits().rateLimitPerMinute;
+  if (perMinute === 0) return;
+
+  const now = Date.now();
+  if (hits.size > MAX_KEYS) prune(now);
+
+  const times = (hits.get(key) ?? []).filter((t) => t > now - WINDOW_MS);
+  if (times.length >= perMinute) {
+    hits.set(key, times);
+    const retryAfter = Math.max(1, Math.ceil((times[0] + WINDOW_MS - now) / 1000));
+    throw new AppError(
+      "RATE_LIMITED",
+      `More than ${perMinute} requests a minute from this client. Try again in ${retryAfter} s.`,
+      { status: 429, retryAfter }
+    );
+  }
+  times.push(now);
+  hits.set(key, times);
+}
@@ -0,0 +1,206 @@
+// lib/references.ts
+//
+// In-text references ("Eq. (4)", "Section 3.2", "Fig. 2", "Table 1", "[12]") found in
+// the highlight or around it, resolved to their targets in the extracted text so the
+// model can see what the sentence is pointing at.
+import { pageAt } from "./pages";
+
+export type RefKind = "equation" | "section" | "figure" | "table" | "citation";
+
+export type Reference = {
+  kind: RefKind;
+  /** Number as written: "4", "3.2", "12". */
+  key: string;
+  /** Display label: "Eq. (4)", "Section 3.2", "[12]". */
+  label: string;
+};
+
+export type ResolvedReference = Reference & {
+  found: boolean;
+  page?: number;
+  start?: number;
+  end?: number;
+  text?: string;
+};
+
+const MAX_REFERENCES = 6;
+const MAX_TARGET_CHARS = 900;
+const MAX_CITATIONS_PER_BRACKET = 6;
+
+function escape(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function label(kind: RefKind, key: string) {
+  switch (kind) {
+    case "equation":
+      return `Eq. (${key})`;
+    case "section":
+      return `Section ${key}`;
+    case "figure":
+      return `Figure ${key}`;
+    case "table":
+      return `Table ${key}`;
+    case "citation":
+      return `[${key}]`;
+  }
+}
+
+/** Expand "3, 5–7" into ["3", "5", "6", "7"]. */
+function expandCitation(list: string) {
+  const out: string[] = [];
+  for (const part of list.split(/\s*,\s*/)) {
+    const range = part.match(/^(\d+)\s*[-–]\s*(\d+)$/);
+    if (range) {
+      const [a, b] = [Number(range[1]), Number(range[2])];
+      for (let i = a; i <= b && out.length < MAX_CITATIONS_PER_BRACKET; i++) out.push(String(i));
+    } else if (/^\d+$/.test(part)) {
+      out.push(part);
+    }
+  }
+  return out.slice(0, MAX_CITATIONS_PER_BRACKET);
+}
+
+const PATTERNS: Array<{ kind: RefKind; re: RegExp }> = [
+  { kind: "equation", re: /\b(?:Eqs?\.|Equations?)\s*\(?(\d+(?:\.\d+)?[a-z]?)\)?/gi },
+  { kind: "section", re: /(?:\bSections?|\bSecs?\.|§)\s*(\d+(?:\.\d+)*)/gi },
+  { kind: "figure", re: /\b(?:Figures?|Figs?\.)\s*(\d+[a-z]?)/gi },
+  { kind: "table", re: /\bTables?\s*(\d+)/gi },
+  { kind: "citation", re: /\[(\d+(?:\s*(?:,|[-–])\s*\d+)*)\]/g },
+];
+
+/** References in order of appearance, de-duplicated. */
+export function detectReferences(text: string): Reference[] {
+  const found: Array<Reference & { at: number }> = [];
+
+  for (const { kind, re } of PATTERNS) {
+    re.lastIndex = 0;
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(text)) !== null) {
+      const keys = kind === "citation" ? expandCitation(m[1]) : [m[1].replace(/\.$/, "")];
+      for (const key of keys) found.push({ kind, key, label: label(kind, key), at: m.index });
+    }
+  }
+
+  const seen = new Set<string>();
+  return found
+    .sort((a, b) => a.at - b.at)
+    .filter((r) => {
+      const id = `${r.kind}:${r.key}`;
+      if (seen.has(id)) return false;
+      seen.add(id);
+      return true;
+    })
+    .map(({ kind, key, label }) => ({ kind, key, label }));
+}
+
+function lineStartBefore(text: string, i: number) {
+  return text.lastIndexOf("\n", i - 1) + 1;
+}
+
+/** The first line that ends with `label` after some content, skipping prose like "Eq. (4)". */
+function equationLine(text: string, label: string) {
+  for (let start = 0; start <= text.length; ) {
+    const newline = text.indexOf("\n", start);
+    const lineEnd = newline === -1 ? text.length : newline;
+    const line = text.slice(start, lineEnd).trimEnd();
+    if (line.endsWith(label) && line.slice(0, -label.length).trim() && !/\bEqs?\./.test(line)) {
+      return { start, end: start + line.length };
+    }
+    if (newline === -1) break;
+    start = newline + 1;
+  }
+  return null;
+}
+
+function untilBlankLine(text: string, start: number, max: number) {
+  const rest = text.slice(start, start + max);
+  const blank = rest.search(/\n\s*\n|\f/);
+  return start + (blank === -1 ? rest.length : blank);
+}
+
+/** The target's span, and `at`: where its label or number is, which gives its page. */
+function locate(text: string, ref: Reference): { start: number; end: number; at: number } | null {
+  const key = escape(ref.key);
+
+  switch (ref.kind) {
+    case "equation": {
+      // Display equations end their (last) line with the number: "   E = mc^2     (4)".
+      // A plain scan, line by line: a regex for this backtracks quadratically on long lines.
+      const line = equationLine(text, `(${ref.key})`);
+      if (!line) return null;
+      const end = line.end;
+      // Multi-line equations: take the two lines above as well, but not from the page before.
+      const pageStart = text.lastIndexOf("\f", end - 1) + 1;
+      const at = Math.max(line.start, pageStart);
+      let start = at;
+      for (let k = 0; k < 2 && start > pageStart; k++) start = Math.max(pageStart, lineStartBefore(text, start - 1));
+      return { start, end, at };
+    }
+    case "section": {
+      const re = new RegExp(`^[ \\t\\f]*${key}\\.?[ \\t]+\\p{Lu}[^\\n]{0,100}$`, "gmu");
+      const m = re.exec(text);
+      if (!m) return null;
+      return { start: m.index, end: Math.min(text.length, m.index + MAX_TARGET_CHARS), at: m.index };
+    }
+    case "figure":
+    case "table": {
+      const word = ref.kind === "figure" ? "(?:Figure|Fig\\.)" : "Table";
+      const re = new RegExp(`^[ \\t\\f]*${word}[ \\t]*${key}[.:]`, "gmi");
+      const m = re.exec(text);
+      if (!m) return null;
+      return { start: m.index, end: untilBlankLine(text, m.index, MAX_TARGET_CHARS), at: m.index };
+    }
+    case "citation": {
+      // Entries live after the last "References"/"Bibliography" heading.
+      const heading = /^[ \t]*(?:\d+\.?[ \t]+)?(?:References|Bibliography|Works Cited|Literature Cited)[ \t]*$/gim;
+      let bibStart = -1;
+      let h: RegExpExecArray | null;
+      while ((h = heading.exec(text)) !== null) bibStart = h.index;
+      if (bibStart === -1) return null;
+
+      const re = new RegExp(`^[ \\t\\f]*(?:\\[${key}\\]|${key}\\.)[ \\t]`, "gm");
+      re.lastIndex = bibStart;
+      const m = re.exec(text);
+      if (!m) return null;
+
+      // The entry runs until the next numbered entry or a blank line.
+      const rest = text.slice(m.index + m[0].length, m.index + MAX_TARGET_CHARS);
+      const next = rest.search(/\n[ \t]*(?:\[\d+\]|\d+\.[ \t])|\n\s*\n|\f/);
+      return { start: m.index, end: m.index + m[0].length + (next === -1 ? rest.length : next), at: m.index };
+    }
+  }
+}
+
+/**
+ * Detect references in `sources` (highlight first, then the nearby window) and resolve
+ * each against the document text.
+ */
+export function resolveReferences(
+  doc: { text: string; pageStarts: number[] },
+  sources: string[]
+): ResolvedReference[] {
+  const seen = new Set<string>();
+  const refs: Reference[] = [];
+  for (const src of sources) {
+    for (const r of detectReferences(src)) {
+      const id = `${r.kind}:${r.key}`;
+      if (seen.has(id)) continue;
+      seen.add(id);
+      refs.push(r);
+    }
+  }
+
+  return refs.slice(0, MAX_REFERENCES).map((ref) => {
+    const hit = locate(doc.text, ref);
+    if (!hit) return { ...ref, found: false };
+    return {
+      ...ref,
+      found: true,
+      page: pageAt(doc.pageStarts, hit.at),
+      start: hit.start,
+      end: hit.end,
+      text: doc.text.slice(hit.start, hit.end).replace(/\f/g, "").trim(),
+    };
+  });
+}
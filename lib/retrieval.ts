@@ -0,0 +1,165 @@
+// lib/retrieval.ts
+//
+// Passage retrieval over a stored document with a small in-memory BM25 index, so the
+// prompt can include definitions and earlier mentions that sit far from the highlight.
+import { pageAt } from "./pages";
+
+export type Passage = {
+  start: number;
+  end: number;
+  page: number;
+};
+
+export type RankedPassage = Passage & { score: number };
+
+type Index = {
+  passages: Passage[];
+  termFreqs: Map<string, number>[];
+  lengths: number[];
+  avgLength: number;
+  docFreq: Map<string, number>;
+};
+
+const TARGET_PASSAGE_CHARS = 700;
+const MAX_PASSAGE_CHARS = 1200;
+
+const K1 = 1.2;
+const B = 0.75;
+
+// Passages that define or introduce terms are the ones a reader is usually missing.
+const DEFINITION_RE =
+  /\b(is defined as|are defined as|we define|define[sd]? as|denote[sd]?|refers? to|is called|are called|let \S+ be|we call|stands for|i\.e\.)\b/i;
+
+const STOPWORDS = new Set(
+  (
+    "a an and are as at be been but by can could did do does for from had has have he her his how i if in into is it its " +
+    "may might more most no not of on or our she should so such than that the their them then there these they this " +
+    "those to was we were what when where which while who why will with would you your also thus hence however"
+  ).split(" ")
+);
+
+export function tokenize(text: string) {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(
+    (t) => t.length > 1 && !STOPWORDS.has(t)
+  );
+}
+
+/** Paragraph-sized passages, never crossing a page boundary. */
+export function splitPassages(text: string, pageStarts: number[]): Passage[] {
+  const out: Passage[] = [];
+
+  const push = (start: number, end: number) => {
+    while (end - start > MAX_PASSAGE_CHARS) {
+      // Cut long paragraphs at a sentence end near the target size when we can.
+      const slice = text.slice(start + TARGET_PASSAGE_CHARS, start + MAX_PASSAGE_CHARS);
+      const dot = slice.search(/[.!?]\s/);
+      const cut = dot === -1 ? start + MAX_PASSAGE_CHARS : start + TARGET_PASSAGE_CHARS + dot + 1;
+      out.push({ start, end: cut, page: pageAt(pageStarts, start) });
+      start = cut;
+    }
+    if (text.slice(start, end).trim()) out.push({ start, end, page: pageAt(pageStarts, start) });
+  };
+
+  const boundaries = /\n\s*\n|\f/g;
+  let chunkStart = 0;
+  let m: RegExpExecArray | null;
+
+  while ((m = boundaries.exec(text)) !== null) {
+    const blockEnd = m.index;
+    const pageBreak = m[0] === "\f";
+    // Merge short paragraphs until the chunk is passage-sized.
+    if (pageBreak || blockEnd - chunkStart >= TARGET_PASSAGE_CHARS) {
+      push(chunkStart, blockEnd);
+      chunkStart = m.index + m[0].length;
+    }
+  }
+  push(chunkStart, text.length);
+
+  return out;
+}
+
+const indexes = new WeakMap<object, Index>();
+
+/** BM25 index for a document, built on first use and kept as long as the document is. */
+export function getIndex(doc: { text: string; pageStarts: number[] }): Index {
+  const hit = indexes.get(doc);
+  if (hit) return hit;
+
+  const passages = splitPassages(doc.text, doc.pageStarts);
+  const termFreqs: Map<string, number>[] = [];
+  const lengths: number[] = [];
+  const docFreq = new Map<string, number>();
+
+  for (const p of passages) {
+    const tf = new Map<string, number>();
+    const tokens = tokenize(doc.text.slice(p.start, p.end));
+    for (const t of tokens) tf.set(t, (tf.get(t) || 0) + 1);
+    for (const t of tf.keys()) docFreq.set(t, (docFreq.get(t) || 0) + 1);
+    termFreqs.push(tf);
+    lengths.push(tokens.length);
+  }
+
+  const index: Index = {
+    passages,
+    termFreqs,
+    lengths,
+    avgLength: lengths.reduce((a, b) => a + b, 0) / Math.max(1, lengths.length),
+    docFreq,
+  };
+  indexes.set(doc, index);
+  return index;
+}
+
+/**
+ * Rank passages against `query`. Passages overlapping `exclude` (the local window the
+ * prompt already has) are skipped; definitional and earlier passages get a small boost.
+ */
+export function rankPassages(
+  doc: { text: string; pageStarts: number[] },
+  query: string,
+  opts: { exclude?: { start: number; end: number }; anchor?: number; limit?: number } = {}
+): RankedPassage[] {
+  const index = getIndex(doc);
+  const terms = [...new Set(tokenize(query))];
+  if (terms.length === 0) return [];
+
+  const n = index.passages.length;
+  const ranked: RankedPassage[] = [];
+
+  index.passages.forEach((p, i) => {
+    if (opts.exclude && p.start < opts.exclude.end && p.end > opts.exclude.start) return;
+
+    const tf = index.termFreqs[i];
+    const len = index.lengths[i];
+    let score = 0;
+    for (const t of terms) {
+      const f = tf.get(t);
+      if (!f) continue;
+      const df = index.docFreq.get(t) || 0;
+      const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+      score += (idf * (f * (K1 + 1))) / (f + K1 * (1 - B + (B * len) / index.avgLength));
+    }
+    if (score <= 0) return;
+
+    if (DEFINITION_RE.test(doc.text.slice(p.start, p.end))) score *= 1.3;
+    if (opts.anchor !== undefined && p.end <= opts.anchor) score *= 1.1;
+
+    ranked.push({ ...p, score });
+  });
+
+  ranked.sort((a, b) => b.score - a.score);
+  return ranked.slice(0, opts.limit ?? 8);
+}
+
+/** Greedily keep the best passages that fit in `budgetChars`. */
+export function fitToBudget(passages: RankedPassage[], budgetChars: number) {
+  const out: RankedPassage[] = [];
+  let used = 0;
+  for (const p of passages) {
+    const size = p.end - p.start;
+    if (used + size > budgetChars) continue;
+    out.push(p);
+    used += size;
+  }
+  return out;
+}
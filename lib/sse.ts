@@ -0,0 +1,76 @@
+// lib/sse.ts
+//
+// Minimal Server-Sent Events over fetch: the server side wraps an async producer in a
+// text/event-stream Response, the client side reads one back (EventSource can't POST).
+
+type Send = (event: string, data: unknown) => void;
+
+/**
+ * `produce` gets a signal that aborts when the client disconnects (closed tab, Stop
+ * button), so it can cancel upstream work instead of streaming into the void.
+ */
+export function sseResponse(
+  produce: (send: Send, signal: AbortSignal) => Promise<void>,
+  onError: (err: unknown) => unknown
+) {
+  const encoder = new TextEncoder();
+  const abort = new AbortController();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send: Send = (event, data) => {
+        if (abort.signal.aborted) return;
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      try {
+        await produce(send, abort.signal);
+      } catch (err) {
+        send("error", onError(err));
+      } finally {
+        if (!abort.signal.aborted) controller.close();
+      }
+    },
+    cancel(reason) {
+      abort.abort(reason);
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+export async function readSse(
+  res: Response,
+  onEvent: (event: string, data: unknown) => void
+) {
+  if (!res.body) throw new Error("Response has no body to stream.");
+
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    let sep: number;
+    while ((sep = buffer.indexOf("\n\n")) !== -1) {
+      const block = buffer.slice(0, sep);
+      buffer = buffer.slice(sep + 2);
+
+      let event = "message";
+      let data = "";
+      for (const line of block.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) data += line.slice(5).trim();
+      }
+      if (data) onEvent(event, JSON.parse(data));
+    }
+  }
+}
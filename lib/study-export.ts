@@ -0,0 +1,75 @@
+// lib/study-export.ts
+//
+// Card exports, run in the browser. The CSV/TSV files use Anki's import headers
+// (Anki 2.1.55+), so MCQ and Q/A cards land as "Basic" notes and cloze cards as "Cloze"
+// notes from a single file.
+import type { StudyCard } from "./study";
+
+/** Plain Markdown front and back of a card, for on-screen review and notes. */
+export function cardText(card: StudyCard): { front: string; back: string } {
+  switch (card.kind) {
+    case "mcq":
+      return {
+        front: `${card.question}\n\n${card.choices.map((c, i) => `${String.fromCharCode(65 + i)}. ${c}`).join("  \n")}`,
+        back: `${String.fromCharCode(65 + card.answer)}. ${card.choices[card.answer]}${card.explanation ? ` — ${card.explanation}` : ""}`,
+      };
+    case "cloze":
+      return {
+        front: card.text.replace(/\{\{c\d+::([^}]+?)(?:::[^}]*)?\}\}/g, "[…]"),
+        back: card.text.replace(/\{\{c\d+::([^}]+?)(?:::[^}]*)?\}\}/g, "**$1**"),
+      };
+    case "qa":
+      return { front: card.question, back: card.answer };
+  }
+}
+
+function escapeHtml(s: string) {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+// Anki fields are HTML; keep line breaks.
+function html(s: string) {
+  return escapeHtml(s).replace(/\r?\n/g, "<br>");
+}
+
+/** [note type, field 1, field 2] for one card. */
+function ankiRow(card: StudyCard): [string, string, string] {
+  const page = card.page ? `<br><br><small>p. ${card.page}</small>` : "";
+  switch (card.kind) {
+    case "mcq": {
+      const choices = card.choices.map((c, i) => `${String.fromCharCode(65 + i)}. ${html(c)}`).join("<br>");
+      const answer = `${String.fromCharCode(65 + card.answer)}. ${html(card.choices[card.answer])}`;
+      const why = card.explanation ? `<br><br>${html(card.explanation)}` : "";
+      return ["Basic", `${html(card.question)}<br><br>${choices}`, `${answer}${why}${page}`];
+    }
+    case "cloze":
+      // Only the text is escaped; the {{c1::…}} markers pass through untouched.
+      return ["Cloze", html(card.text), page.replace(/^(<br>)+/, "")];
+    case "qa":
+      return ["Basic", html(card.question), `${html(card.answer)}${page}`];
+  }
+}
+
+// Anki reads both formats with a CSV parser, so quoting works the same for tabs.
+function field(s: string, sep: string) {
+  return s.includes('"') || s.includes(sep) || s.includes("\n") ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function toAnki(cards: StudyCard[], format: "csv" | "tsv", tags: string[] = []) {
+  const sep = format === "csv" ? "," : "\t";
+  const tagField = tags.map((t) => t.replace(/\s+/g, "_")).join(" ");
+
+  const header = [
+    `#separator:${format === "csv" ? "comma" : "tab"}`,
+    "#html:true",
+    "#notetype column:1",
+    "#tags column:4",
+  ];
+  const rows = cards.map((card) => [...ankiRow(card), tagField].map((f) => field(f, sep)).join(sep));
+
+  return [...header, ...rows].join("\n") + "\n";
+}
+
+export function toJson(cards: StudyCard[], meta: { fileName?: string; createdAt: number }) {
+  return JSON.stringify({ ...meta, cards }, null, 2);
+}
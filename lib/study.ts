@@ -0,0 +1,181 @@
+// lib/study.ts
+//
+// Review material from a thread: multiple-choice questions, cloze deletions and Q/A
+// flashcards, generated from the thread's highlights and grounded in the same PDF
+// context the explanations used.
+import { getDocument } from "./document-store";
+import { AppError } from "./errors";
+import { findContext, mapReadingLevel, UnknownDocumentError, type ReadingLevel } from "./explain";
+import { languageInstruction, type OutputLanguage } from "./language";
+import { getProvider, parseJsonReply, type LlmMessage } from "./llm";
+
+export type CardKind = "mcq" | "cloze" | "qa";
+
+export type StudyCard =
+  | {
+      kind: "mcq";
+      question: string;
+      choices: string[];
+      /** Index into `choices`. */
+      answer: number;
+      explanation?: string;
+      page?: number;
+    }
+  | {
+      kind: "cloze";
+      /** Anki cloze syntax: "The {{c1::mitochondria}} is …". */
+      text: string;
+      page?: number;
+    }
+  | {
+      kind: "qa";
+      question: string;
+      answer: string;
+      page?: number;
+    };
+
+/** A highlight from the thread, with the explanation it got (if any). */
+export type StudyItem = { highlight: string; page?: number; explanation?: string };
+
+export type StudyRequest = {
+  docId: string;
+  items: StudyItem[];
+  kinds: CardKind[];
+  count: number;
+  readingLevel: ReadingLevel;
+  language?: OutputLanguage;
+  provider?: string;
+  /** Aborting it cancels the LLM call. */
+  signal?: AbortSignal;
+};
+
+export const CARD_KINDS: CardKind[] = ["mcq", "cloze", "qa"];
+export const MAX_STUDY_ITEMS = 8;
+export const MAX_STUDY_CARDS = 30;
+
+// Each highlight brings a smaller window than an explanation does, so eight fit.
+const STUDY_WINDOW_CHARS = 1800;
+const MAX_EXPLANATION_CHARS = 1500;
+
+export class StudyGenerationError extends AppError {
+  constructor(message: string) {
+    super("LLM_BAD_OUTPUT", message);
+    this.name = "StudyGenerationError";
+  }
+}
+
+/** Parse the `items` form field, dropping anything that isn't a usable highlight. */
+export function parseStudyItems(raw: string): StudyItem[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw || "[]");
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(parsed)) return [];
+
+  return parsed
+    .filter((x): x is StudyItem => !!x && typeof x.highlight === "string" && x.highlight.trim() !== "")
+    .map((x) => ({
+      highlight: x.highlight.trim(),
+      page: Number.isInteger(x.page) && Number(x.page) > 0 ? x.page : undefined,
+      explanation: typeof x.explanation === "string" ? x.explanation.slice(0, MAX_EXPLANATION_CHARS) : undefined,
+    }))
+    .slice(-MAX_STUDY_ITEMS);
+}
+
+function str(x: unknown) {
+  return typeof x === "string" ? x.trim() : "";
+}
+
+function pageOf(x: unknown) {
+  const n = Number(x);
+  return Number.isInteger(n) && n > 0 ? n : undefined;
+}
+
+/** Keep only well-formed cards of the requested kinds. */
+export function validateCards(raw: unknown, kinds: CardKind[]): StudyCard[] {
+  // Models sometimes wrap the array: {"cards": [...]}.
+  const wrapped = (raw as { cards?: unknown } | null)?.cards;
+  const list: unknown[] = Array.isArray(raw) ? raw : Array.isArray(wrapped) ? wrapped : [];
+  const out: StudyCard[] = [];
+
+  for (const c of list) {
+    if (!c || typeof c !== "object") continue;
+    const card = c as Record<string, unknown>;
+    const kind = card.kind;
+    if (typeof kind !== "string" || !kinds.includes(kind as CardKind)) continue;
+
+    if (kind === "mcq") {
+      const question = str(card.question);
+      const choices = Array.isArray(card.choices) ? card.choices.map(str).filter(Boolean) : [];
+      const answer = Number(card.answer);
+      if (!question || choices.length < 2 || !Number.isInteger(answer) || !choices[answer]) continue;
+      out.push({ kind, question, choices, answer, explanation: str(card.explanation) || undefined, page: pageOf(card.page) });
+    } else if (kind === "cloze") {
+      const text = str(card.text);
+      if (!/\{\{c\d+::[^}]+\}\}/.test(text)) continue;
+      out.push({ kind, text, page: pageOf(card.page) });
+    } else {
+      const question = str(card.question);
+      const answer = str(card.answer);
+      if (!question || !answer) continue;
+      out.push({ kind: "qa", question, answer, page: pageOf(card.page) });
+    }
+  }
+  return out.slice(0, MAX_STUDY_CARDS);
+}
+
+const KIND_DESCRIPTIONS: Record<CardKind, string> = {
+  mcq: `{"kind":"mcq","question":"…","choices":["…","…","…","…"],"answer":<index of the correct choice>,"explanation":"why it is right","page":<N>}`,
+  cloze: `{"kind":"cloze","text":"A sentence with the key term as {{c1::term}}.","page":<N>}`,
+  qa: `{"kind":"qa","question":"…","answer":"…","page":<N>}`,
+};
+
+export async function generateStudySet(req: StudyRequest) {
+  const llm = getProvider(req.provider);
+
+  const doc = await getDocument(req.docId);
+  if (!doc) throw new UnknownDocumentError(req.docId);
+
+  const material = req.items
+    .map((item, i) => {
+      const { context, match } = findContext(doc, item.highlight, item.page ?? null, STUDY_WINDOW_CHARS);
+      const where = match ? ` (located on page ${match.pages[0]})` : " (not located in the PDF)";
+      const explanation = item.explanation ? `\nEXPLANATION GIVEN:\n${item.explanation}` : "";
+      return `### HIGHLIGHT ${i + 1}${where}\n${item.highlight}${explanation}\nCONTEXT:\n${context}`;
+    })
+    .join("\n\n");
+
+  const system = `You write review material for a student from passages of a PDF they studied.
+Rules:
+- Use ONLY facts stated in the CONTEXT blocks. Explanations only show what the student was taught.
+- Test understanding of the highlighted ideas, not trivia about the document.
+- Multiple-choice distractors must be plausible but clearly wrong given the context.
+- The context is marked with [p. N] page markers; set "page" to the page each card comes from.
+- Write math as LaTeX: $...$.
+- ${mapReadingLevel(req.readingLevel)}
+- ${languageInstruction(req.language ?? "en", doc.language)} JSON keys and "kind" values stay in English.
+- Reply with ONE JSON object only, no prose: {"cards": [...]}, where each card is one of:
+${req.kinds.map((k) => `  ${KIND_DESCRIPTIONS[k]}`).join("\n")}`;
+
+  const messages: LlmMessage[] = [
+    { role: "system", content: system },
+    {
+      role: "user",
+      content: `Write ${req.count} cards, mixing these kinds: ${req.kinds.join(", ")}.\n\n${material}`,
+    },
+  ];
+
+  let reply = "";
+  for await (const text of llm.stream({ messages, temperature: 0.4, json: true, signal: req.signal })) reply += text;
+
+  const cards = validateCards(parseJsonReply(reply), req.kinds);
+  if (cards.length === 0) {
+    throw new StudyGenerationError(
+      `The model did not return any usable cards (${llm.name}/${llm.model}). Try again or use another provider.`
+    );
+  }
+
+  return { cards, debug: { ...doc.debug, llm: { provider: llm.name, model: llm.model } } };
+}
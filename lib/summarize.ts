@@ -0,0 +1,269 @@
+// lib/summarize.ts
+//
+// Summaries of the whole document or a page / section range, for an overview before
+// highlighting. Long ranges are map-reduced: each chunk is condensed to notes, the notes
+// are combined, and only the final pass is streamed. Notes and summaries are cached per
+// document (in memory, plus a tmp file like the document store).
+import path from "path";
+import fs from "fs/promises";
+import os from "os";
+import type { StoredDocument } from "./document-store";
+import { AppError } from "./errors";
+import type { ExplainEvent, ExplainResult, ReadingLevel } from "./explain";
+import { languageInfo, languageInstruction, type OutputLanguage } from "./language";
+import type { LlmMessage, LlmProvider } from "./llm";
+import { formatSection, sectionPath } from "./outline";
+import { formatPages, pageRange, pageSpan, withPageMarkers, type PageRange } from "./pages";
+
+/** Pages `first..last`, or the outline entry at `section` (index into doc.outline.entries). */
+export type SummaryRange = { pages: PageRange } | { section: number };
+
+// Roughly 3k tokens per map call, and what the reduce step may take in one go.
+const CHUNK_CHARS = 12000;
+const REDUCE_CHARS = 16000;
+
+type SummaryCache = {
+  /** Chunk notes by "start-end:provider:model". */
+  notes: Record<string, string>;
+  /** Final summaries by "start-end:readingLevel:language:provider:model". */
+  summaries: Record<string, string>;
+};
+
+const caches = new Map<string, SummaryCache>();
+const MAX_CACHED = 20;
+
+function cachePath(docId: string) {
+  return path.join(os.tmpdir(), `pdfsum-${docId}.json`);
+}
+
+async function loadCache(docId: string): Promise<SummaryCache> {
+  const hit = caches.get(docId);
+  if (hit) return hit;
+
+  let cache: SummaryCache = { notes: {}, summaries: {} };
+  try {
+    cache = JSON.parse(await fs.readFile(cachePath(docId), "utf8")) as SummaryCache;
+  } catch {
+    // Nothing summarized yet.
+  }
+  caches.set(docId, cache);
+  while (caches.size > MAX_CACHED) {
+    const oldest = caches.keys().next().value;
+    if (oldest === undefined) break;
+    caches.delete(oldest);
+  }
+  return cache;
+}
+
+async function saveCache(docId: string, cache: SummaryCache) {
+  // Best-effort, as for documents.
+  await fs.writeFile(cachePath(docId), JSON.stringify(cache)).catch(() => {});
+}
+
+/**
+ * Offsets and a display label for the requested range (whole document by default). A
+ * section the outline doesn't have is an INVALID_REQUEST, not the whole document.
+ */
+export function resolveRange(doc: StoredDocument, range: SummaryRange | undefined) {
+  const { text, pageStarts } = doc;
+
+  if (range && "section" in range) {
+    const entries = doc.outline.entries;
+    const entry = entries[range.section];
+    if (!entry) {
+      throw new AppError(
+        "INVALID_REQUEST",
+        entries.length
+          ? `"section" must be an outline index from 0 to ${entries.length - 1} (got ${range.section}).`
+          : `"section" was given, but this document has no outline.`
+      );
+    }
+    // A section runs until the next entry at the same or a higher level.
+    const next = entries.find((e, i) => i > range.section && e.level <= entry.level && e.start > entry.start);
+    return {
+      start: entry.start,
+      end: next ? next.start : text.length,
+      label: formatSection(sectionPath(entries, entry.start)),
+    };
+  }
+
+  if (range && "pages" in range) {
+    const span = pageSpan(pageStarts, text.length, range.pages[0], range.pages[1]);
+    return { ...span, label: formatPages(pageRange(pageStarts, span.start, span.end)) };
+  }
+
+  return { start: 0, end: text.length, label: "the whole document" };
+}
+
+/** Chunks of at most CHUNK_CHARS, cut at paragraph (or at least line) boundaries. */
+function chunkRange(text: string, start: number, end: number) {
+  const chunks: Array<{ start: number; end: number }> = [];
+  let cursor = start;
+
+  while (cursor < end) {
+    let cut = Math.min(end, cursor + CHUNK_CHARS);
+    if (cut < end) {
+      const slice = text.slice(cursor + CHUNK_CHARS / 2, cut);
+      const para = Math.max(slice.lastIndexOf("\n\n"), slice.lastIndexOf("\f"));
+      const line = slice.lastIndexOf("\n");
+      const at = para !== -1 ? para : line;
+      if (at !== -1) cut = cursor + CHUNK_CHARS / 2 + at + 1;
+    }
+    if (text.slice(cursor, cut).trim()) chunks.push({ start: cursor, end: cut });
+    cursor = cut;
+  }
+  return chunks;
+}
+
+async function complete(llm: LlmProvider, messages: LlmMessage[], signal?: AbortSignal) {
+  let out = "";
+  for await (const text of llm.stream({ messages, temperature: 0.2, signal })) out += text;
+  return out.trim();
+}
+
+const NOTES_SYSTEM = `You condense one part of a document into notes for a later summary.
+Rules:
+- Use ONLY the given text. Do not add outside facts.
+- Write dense bullet notes: main claims, definitions, methods, results, and key terms.
+- Write in the language of the text and keep its technical terms verbatim; the summary may be in another language.
+- The text is marked with [p. N] page markers. Keep the page for each note, like (p. 12).
+- Write math as LaTeX: $...$.`;
+
+function summaryInstructions(level: string, language: string, outline: string) {
+  return `You are a careful study assistant writing a chapter overview before the student starts reading closely.
+Rules:
+- Use ONLY the provided text or notes. If something is unclear, say so.
+- Structure the summary with Markdown: a short overview paragraph, then the key points${outline ? " following the section outline" : ""}, then a list of key terms with one-line definitions.
+- Cite pages like (p. 12).
+- Write math as LaTeX: $...$ inline, $$...$$ for display.
+- ${level}
+- ${language}`;
+}
+
+/**
+ * Summarize `range` of `doc`. Yields the same events as explain(): stages (with map
+ * progress), streamed deltas of the final pass, and a "done" result.
+ */
+export async function* summarize(
+  doc: StoredDocument,
+  llm: LlmProvider,
+  opts: {
+    range?: SummaryRange;
+    readingLevel: ReadingLevel;
+    language: OutputLanguage;
+    level: string;
+    debug: ExplainResult["debug"];
+    signal?: AbortSignal;
+  }
+): AsyncGenerator<ExplainEvent> {
+  const { text, pageStarts } = doc;
+  const { start, end, label } = resolveRange(doc, opts.range);
+  const pages = pageRange(pageStarts, start, end);
+  const chunks = chunkRange(text, start, end);
+
+  const cache = await loadCache(doc.docId);
+  const llmKey = `${llm.name}:${llm.model}`;
+  const summaryKey = `${start}-${end}:${opts.readingLevel}:${opts.language}:${llmKey}`;
+  const condense = (messages: LlmMessage[]) => complete(llm, messages, opts.signal);
+
+  const result = (output: string, cached: boolean): ExplainResult => ({
+    output,
+    match: null,
+    pages: { match: null, context: pages },
+    section: opts.range && "section" in opts.range ? label : null,
+    passages: [],
+    references: [],
+    ocr: doc.ocr
+      ? { pages: doc.ocr.pages.filter((p) => p.page >= pages[0] && p.page <= pages[1]), skipped: doc.ocr.skipped }
+      : null,
+    summary: { label, chunks: chunks.length, cached },
+    breakdown: null,
+    language: languageInfo(opts.language, doc.language),
+    debug: opts.debug,
+  });
+
+  const cachedSummary = cache.summaries[summaryKey];
+  if (cachedSummary) {
+    yield { type: "delta", text: cachedSummary };
+    yield { type: "done", result: result(cachedSummary, true) };
+    return;
+  }
+
+  if (!text.slice(start, end).trim()) {
+    yield {
+      type: "done",
+      result: result("No text could be extracted from this part of the PDF, so there is nothing to summarize.", false),
+    };
+    return;
+  }
+
+  // Map: condense each chunk to notes (skipped when the range fits in one pass).
+  let material: string;
+  if (chunks.length === 1) {
+    material = `TEXT (${label}, ${formatPages(pages)}):\n${withPageMarkers(text, pageStarts, start, end)}`;
+  } else {
+    const notes: string[] = [];
+    for (const [i, chunk] of chunks.entries()) {
+      yield { type: "stage", stage: "summarizing", progress: { done: i, total: chunks.length } };
+
+      const key = `${chunk.start}-${chunk.end}:${llmKey}`;
+      const partLabel = `PART ${i + 1} of ${chunks.length} (${formatPages(pageRange(pageStarts, chunk.start, chunk.end))})`;
+      cache.notes[key] ??= await condense([
+        { role: "system", content: NOTES_SYSTEM },
+        { role: "user", content: `${partLabel}:\n${withPageMarkers(text, pageStarts, chunk.start, chunk.end)}` },
+      ]);
+      notes.push(`${partLabel}\n${cache.notes[key]}`);
+    }
+    await saveCache(doc.docId, cache);
+
+    // Reduce: if the notes are still too long, condense them in groups until they fit.
+    let combined = notes;
+    while (combined.join("\n\n").length > REDUCE_CHARS && combined.length > 1) {
+      const groups: string[][] = [[]];
+      for (const n of combined) {
+        const group = groups[groups.length - 1];
+        if (group.length > 0 && [...group, n].join("\n\n").length > REDUCE_CHARS) groups.push([n]);
+        else group.push(n);
+      }
+      if (groups.length === combined.length) break; // every note is already as large as a group
+      combined = [];
+      for (const [i, group] of groups.entries()) {
+        combined.push(
+          `NOTES ${i + 1} of ${groups.length}\n` +
+            (await condense([
+              { role: "system", content: NOTES_SYSTEM },
+              { role: "user", content: `NOTES TO CONDENSE:\n${group.join("\n\n")}` },
+            ]))
+        );
+      }
+    }
+    material = `NOTES (on ${label}, ${formatPages(pages)}, in reading order):\n${combined.join("\n\n")}`;
+  }
+
+  yield { type: "stage", stage: "generating" };
+
+  const outline = doc.outline.entries
+    .filter((e) => e.start >= start && e.start < end)
+    .map((e) => `${"  ".repeat(e.level - 1)}- ${e.title} (p. ${e.page})`)
+    .join("\n");
+  const outlineBlock = outline ? `\n\nOUTLINE:\n${outline}` : "";
+
+  const messages: LlmMessage[] = [
+    { role: "system", content: summaryInstructions(opts.level, languageInstruction(opts.language, doc.language), outline) },
+    { role: "user", content: `Summarize ${label}.${outlineBlock}\n\n${material}` },
+  ];
+
+  let output = "";
+  for await (const piece of llm.stream({ messages, temperature: 0.3, signal: opts.signal })) {
+    output += piece;
+    yield { type: "delta", text: piece };
+  }
+  output = output.trim();
+
+  if (output) {
+    cache.summaries[summaryKey] = output;
+    await saveCache(doc.docId, cache);
+  }
+
+  yield { type: "done", result: result(output || "No output.", false) };
+}
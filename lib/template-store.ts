@@ -0,0 +1,96 @@
+// lib/template-store.ts
+//
+// Saved prompt templates (see lib/templates.ts), all in one JSON file: TEMPLATES_FILE,
+// default .data/templates.json next to the server-side threads. The built-in examples
+// are listed first and can't be changed.
+import path from "path";
+import fs from "fs/promises";
+import {
+  BUILTIN_TEMPLATES,
+  InvalidTemplateError,
+  UnknownTemplateError,
+  validateTemplate,
+  type PromptTemplate,
+} from "./templates";
+
+const MAX_TEMPLATES = 100;
+
+function templatesFile() {
+  return process.env.TEMPLATES_FILE?.trim() || path.join(process.cwd(), ".data", "templates.json");
+}
+
+async function readSaved(): Promise<PromptTemplate[]> {
+  try {
+    return JSON.parse(await fs.readFile(templatesFile(), "utf8")) as PromptTemplate[];
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw err;
+  }
+}
+
+async function writeSaved(templates: PromptTemplate[]) {
+  const file = templatesFile();
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(templates, null, 2));
+  await fs.rename(tmp, file);
+}
+
+// One read-modify-write at a time, so two saves can't drop each other's changes.
+let queue: Promise<unknown> = Promise.resolve();
+
+function update<T>(change: (saved: PromptTemplate[]) => { saved: PromptTemplate[]; result: T }): Promise<T> {
+  const run = queue.then(async () => {
+    const { saved, result } = change(await readSaved());
+    await writeSaved(saved);
+    return result;
+  });
+  queue = run.catch(() => {});
+  return run;
+}
+
+function assertEditable(id: string) {
+  if (BUILTIN_TEMPLATES.some((t) => t.id === id)) {
+    throw new InvalidTemplateError("Built-in templates can't be changed; save a copy under a new name instead.");
+  }
+}
+
+export async function listTemplates(): Promise<PromptTemplate[]> {
+  const saved = await readSaved();
+  return [...BUILTIN_TEMPLATES, ...saved.sort((a, b) => a.name.localeCompare(b.name))];
+}
+
+export async function getTemplate(id: string): Promise<PromptTemplate> {
+  const template = [...BUILTIN_TEMPLATES, ...(await readSaved())].find((t) => t.id === id);
+  if (!template) throw new UnknownTemplateError(id);
+  return template;
+}
+
+export function createTemplate(raw: unknown): Promise<PromptTemplate> {
+  const input = validateTemplate(raw);
+  return update((saved) => {
+    if (saved.length >= MAX_TEMPLATES) throw new InvalidTemplateError(`At most ${MAX_TEMPLATES} templates can be saved.`);
+    const now = Date.now();
+    const template: PromptTemplate = { id: crypto.randomUUID(), ...input, createdAt: now, updatedAt: now };
+    return { saved: [...saved, template], result: template };
+  });
+}
+
+export function updateTemplate(id: string, raw: unknown): Promise<PromptTemplate> {
+  assertEditable(id);
+  const input = validateTemplate(raw);
+  return update((saved) => {
+    const existing = saved.find((t) => t.id === id);
+    if (!existing) throw new UnknownTemplateError(id);
+    const template = { ...existing, ...input, updatedAt: Date.now() };
+    return { saved: saved.map((t) => (t.id === id ? template : t)), result: template };
+  });
+}
+
+export function deleteTemplate(id: string): Promise<void> {
+  assertEditable(id);
+  return update((saved) => {
+    if (!saved.some((t) => t.id === id)) throw new UnknownTemplateError(id);
+    return { saved: saved.filter((t) => t.id !== id), result: undefined };
+  });
+}
@@ -0,0 +1,112 @@
+// lib/templates.ts
+//
+// User-defined explanation modes. A template is named instructions with placeholders
+// that are filled in per request:
+//
+//   {{highlight}}     the selected text
+//   {{context}}       the PDF text around it, with [p. N] page markers
+//   {{readingLevel}}  "middle school", "high school", "college" or "expert"
+//   {{section}}       where the highlight sits in the outline (or "unknown")
+//
+// A template that uses {{context}} lays out the whole request itself; one that doesn't
+// is used as the mode instructions, with the highlight and context added around it the
+// way the built-in modes get them.
+import { AppError } from "./errors";
+
+export type PromptTemplate = {
+  id: string;
+  name: string;
+  instructions: string;
+  createdAt: number;
+  updatedAt: number;
+  /** Shipped examples; listed with the user's templates but not editable. */
+  builtin?: boolean;
+};
+
+/** A template as sent with a request: saved ones by id, or the fields inline. */
+export type TemplateInput = Pick<PromptTemplate, "name" | "instructions">;
+
+export const TEMPLATE_PLACEHOLDERS = ["highlight", "context", "readingLevel", "section"] as const;
+export type TemplateVars = Record<(typeof TEMPLATE_PLACEHOLDERS)[number], string>;
+
+export const MAX_TEMPLATE_NAME = 60;
+export const MAX_TEMPLATE_CHARS = 4000;
+
+export class InvalidTemplateError extends AppError {
+  constructor(message: string) {
+    super("INVALID_TEMPLATE", message);
+    this.name = "InvalidTemplateError";
+  }
+}
+
+export class UnknownTemplateError extends AppError {
+  constructor(id: string) {
+    super("UNKNOWN_TEMPLATE", `No template ${id}.`);
+    this.name = "UnknownTemplateError";
+  }
+}
+
+export const BUILTIN_TEMPLATES: PromptTemplate[] = [
+  {
+    id: "builtin-lawyer",
+    name: "Explain like a lawyer",
+    instructions:
+      "Explain the highlight the way a careful lawyer would read it: what exactly it commits to, what it leaves open, which words carry the weight, and how it could be read differently. Write for a {{readingLevel}} reader.",
+  },
+  {
+    id: "builtin-weakness",
+    name: "Find the weakness",
+    instructions:
+      "Find the weakest point in the argument made by the highlight. State the claim, the evidence the context gives for it, and the gap, hidden assumption or alternative explanation a critical reviewer would raise. Say so if the argument holds up.",
+  },
+  {
+    id: "builtin-jargon",
+    name: "Translate the jargon",
+    instructions:
+      "List every technical term or piece of jargon in the highlight and translate each into plain words a {{readingLevel}} reader knows, using the context for the meaning intended here. Then restate the highlight in plain words.",
+  },
+].map((t) => ({ ...t, createdAt: 0, updatedAt: 0, builtin: true }));
+
+export function usesPlaceholder(instructions: string, name: keyof TemplateVars) {
+  return instructions.includes(`{{${name}}}`);
+}
+
+/** Check a template's name and body; unknown placeholders are almost always typos. */
+export function validateTemplate(raw: unknown): TemplateInput {
+  if (!raw || typeof raw !== "object") throw new InvalidTemplateError("A template must be an object.");
+  const t = raw as Record<string, unknown>;
+
+  const name = typeof t.name === "string" ? t.name.trim() : "";
+  // "{{ highlight }}" is what people type; store the canonical form.
+  const instructions =
+    typeof t.instructions === "string" ? t.instructions.trim().replace(/\{\{\s*(\w+)\s*\}\}/g, "{{$1}}") : "";
+  if (!name) throw new InvalidTemplateError("The template needs a name.");
+  if (name.length > MAX_TEMPLATE_NAME) {
+    throw new InvalidTemplateError(`Template names are at most ${MAX_TEMPLATE_NAME} characters.`);
+  }
+  if (!instructions) throw new InvalidTemplateError("The template has no instructions.");
+  if (instructions.length > MAX_TEMPLATE_CHARS) {
+    throw new InvalidTemplateError(`Templates are at most ${MAX_TEMPLATE_CHARS} characters.`);
+  }
+
+  const unknown = [...instructions.matchAll(/\{\{\s*([^}]*?)\s*\}\}/g)]
+    .map((m) => m[1])
+    .filter((p) => !(TEMPLATE_PLACEHOLDERS as readonly string[]).includes(p));
+  if (unknown.length > 0) {
+    throw new InvalidTemplateError(
+      `Unknown placeholder ${unknown.map((p) => `{{${p}}}`).join(", ")}. ` +
+        `Available: ${TEMPLATE_PLACEHOLDERS.map((p) => `{{${p}}}`).join(", ")}.`
+    );
+  }
+  if (usesPlaceholder(instructions, "context") && !usesPlaceholder(instructions, "highlight")) {
+    throw new InvalidTemplateError("A template that places {{context}} must also place {{highlight}}.");
+  }
+
+  return { name, instructions };
+}
+
+export function renderTemplate(instructions: string, vars: TemplateVars) {
+  return instructions.replace(/\{\{(\w+)\}\}/g, (whole, name: string) =>
+    name in vars ? vars[name as keyof TemplateVars] : whole
+  );
+}
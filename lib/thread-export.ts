@@ -0,0 +1,120 @@
+// lib/thread-export.ts
+//
+// Threads as Markdown study notes. The HTML / PDF exports (app/thread-export.tsx) walk
+// the same sections, so both read alike.
+import { languageName } from "./language";
+import { formatPages } from "./pages";
+import { cardText } from "./study-export";
+import { activeVersion, type ChatMessage, type Thread } from "./threads";
+
+export const MODE_LABELS: Record<string, string> = {
+  quick: "Quick",
+  breakdown: "Breakdown",
+  example: "Example",
+  assumptions: "Assumptions",
+  summarize: "Summary",
+};
+
+export const LEVEL_LABELS: Record<string, string> = {
+  middle: "Middle school",
+  high: "High school",
+  college: "College",
+  expert: "Expert",
+};
+
+export function modeLabel(anchor: NoteSection["anchor"]) {
+  if (anchor.mode === "custom") return anchor.template?.name || "Custom";
+  return MODE_LABELS[anchor.mode] || anchor.mode;
+}
+
+export function languageLabel(language: string) {
+  return language === "source" ? "Same language as the PDF" : `In ${languageName(language)}`;
+}
+
+export function formatTimestamp(ts: number) {
+  return new Date(ts).toLocaleString();
+}
+
+/** One heading per highlight, with everything said about it underneath. */
+export type NoteSection = {
+  anchor: Extract<ChatMessage, { role: "user" }>;
+  replies: Array<Exclude<ChatMessage, { role: "user" }>>;
+};
+
+export function noteSections(thread: Thread): NoteSection[] {
+  const sections: NoteSection[] = [];
+  for (const m of thread.messages) {
+    if (m.role === "user") sections.push({ anchor: m, replies: [] });
+    else sections[sections.length - 1]?.replies.push(m);
+  }
+  return sections;
+}
+
+export function sectionTitle({ anchor }: NoteSection) {
+  const where = anchor.page ? ` (p. ${anchor.page})` : "";
+  return anchor.mode === "summarize" ? `Summary of ${anchor.scope || "whole document"}` : `Highlight${where}`;
+}
+
+export function sectionMeta({ anchor }: NoteSection) {
+  return [
+    modeLabel(anchor),
+    LEVEL_LABELS[anchor.readingLevel] || anchor.readingLevel,
+    anchor.language && anchor.language !== "en" && languageLabel(anchor.language),
+    formatTimestamp(anchor.createdAt),
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+function quote(text: string) {
+  return text
+    .split("\n")
+    .map((l) => `> ${l}`)
+    .join("\n");
+}
+
+export function threadToMarkdown(thread: Thread, level = 1) {
+  const h = (n: number) => "#".repeat(level + n - 1);
+  const out: string[] = [];
+
+  out.push(`${h(1)} ${thread.title}`);
+  out.push(
+    [thread.fileName && `**File:** ${thread.fileName}`, `**Started:** ${formatTimestamp(thread.createdAt)}`]
+      .filter(Boolean)
+      .join("  \n")
+  );
+
+  for (const section of noteSections(thread)) {
+    out.push(`${h(2)} ${sectionTitle(section)}`);
+    out.push(`_${sectionMeta(section)}_`);
+    if (section.anchor.mode !== "summarize") out.push(quote(section.anchor.highlight));
+
+    for (const m of section.replies) {
+      if (m.role === "followup") {
+        out.push(`**Follow-up** · _${formatTimestamp(m.createdAt)}_`);
+        out.push(quote(m.question));
+      } else {
+        const answer = activeVersion(m);
+        const pages = answer.pages ? ` · ${formatPages(answer.pages)}` : "";
+        out.push(`**Explanation**${pages} · _${formatTimestamp(answer.createdAt)}_`);
+        out.push(answer.output);
+      }
+    }
+  }
+
+  if (thread.cards?.length) {
+    out.push(`${h(2)} Review cards`);
+    thread.cards.forEach((card, i) => {
+      const { front, back } = cardText(card);
+      out.push(`**${i + 1}.** ${front}\n\n<details><summary>Answer</summary>\n\n${back}\n\n</details>`);
+    });
+  }
+
+  return out.join("\n\n") + "\n";
+}
+
+export function threadsToMarkdown(threads: Thread[]) {
+  if (threads.length === 1) return threadToMarkdown(threads[0]);
+  const body = threads.map((t) => threadToMarkdown(t, 2)).join("\n---\n\n");
+  return `# PDF Explainer notes\n\n_Exported ${formatTimestamp(Date.now())}_\n\n${body}`;
+}
@@ -0,0 +1,390 @@
+// lib/thread-store.ts
+//
+// Server-side thread storage: one JSON file per thread under THREADS_DIR (default
+// .data/threads in the project). THREADS_STORAGE=off disables it, e.g. on serverless
+// hosts where the filesystem doesn't persist. Threads arrive from clients, so
+// everything is validated before it is written.
+import path from "path";
+import fs from "fs/promises";
+import { validateBreakdown } from "./breakdown";
+import { isDocId } from "./document-store";
+import { AppError, isErrorCode } from "./errors";
+import { MODES, READING_LEVELS } from "./explain";
+import type { OcrPage } from "./extract/types";
+import { OUTPUT_LANGUAGE_CODES } from "./language";
+import type { PageRange } from "./pages";
+import { CARD_KINDS, MAX_STUDY_CARDS, validateCards } from "./study";
+import { validateTemplate } from "./templates";
+import { migrateThread, type AnswerVersion, type ChatMessage, type Thread } from "./threads";
+import { limits, readBody } from "./validation";
+
+export type ThreadSummary = {
+  id: string;
+  title: string;
+  fileName?: string;
+  createdAt: number;
+  updatedAt: number;
+  messages: number;
+};
+
+const MAX_MESSAGES = 500;
+const MAX_VERSIONS = 50;
+const MAX_TEXT_CHARS = 100_000;
+
+export class ThreadNotFoundError extends AppError {
+  constructor(id: string) {
+    super("UNKNOWN_THREAD", `No thread ${id}.`);
+    this.name = "ThreadNotFoundError";
+  }
+}
+
+export class InvalidThreadError extends AppError {
+  constructor(message: string, status?: number) {
+    super("INVALID_THREAD", message, { status });
+    this.name = "InvalidThreadError";
+  }
+}
+
+export class ThreadStorageDisabledError extends AppError {
+  constructor() {
+    super("THREADS_DISABLED", "Thread storage is disabled on this server (THREADS_STORAGE=off).");
+    this.name = "ThreadStorageDisabledError";
+  }
+}
+
+function threadsDir() {
+  if (process.env.THREADS_STORAGE?.trim() === "off") throw new ThreadStorageDisabledError();
+  return process.env.THREADS_DIR?.trim() || path.join(process.cwd(), ".data", "threads");
+}
+
+export function isThreadId(x: string) {
+  return /^[A-Za-z0-9_-]{1,64}$/.test(x);
+}
+
+function threadPath(id: string) {
+  if (!isThreadId(id)) throw new InvalidThreadError(`Invalid thread id "${id}".`);
+  return path.join(threadsDir(), `${id}.json`);
+}
+
+// ---- validation ----
+//
+// Only the fields below are stored; each one is checked, and anything else is dropped.
+
+function record(x: unknown, field: string): Record<string, unknown> {
+  if (!x || typeof x !== "object" || Array.isArray(x)) throw new InvalidThreadError(`"${field}" must be an object.`);
+  return x as Record<string, unknown>;
+}
+
+function text(x: unknown, field: string, optional = false): string {
+  if (x === undefined && optional) return "";
+  if (typeof x !== "string") throw new InvalidThreadError(`"${field}" must be a string.`);
+  if (x.length > MAX_TEXT_CHARS) throw new InvalidThreadError(`"${field}" is too long.`);
+  return x;
+}
+
+function time(x: unknown, field: string): number {
+  if (typeof x !== "number" || !Number.isFinite(x) || x < 0) {
+    throw new InvalidThreadError(`"${field}" must be a timestamp in milliseconds.`);
+  }
+  return x;
+}
+
+function count(x: unknown, field: string, min = 1): number {
+  if (!Number.isInteger(x) || (x as number) < min) {
+    throw new InvalidThreadError(`"${field}" must be a whole number of at least ${min}.`);
+  }
+  return x as number;
+}
+
+function oneOf<T extends string>(x: unknown, field: string, allowed: readonly T[]): T {
+  if (typeof x !== "string" || !(allowed as readonly string[]).includes(x)) {
+    throw new InvalidThreadError(`"${field}" must be one of ${allowed.join(", ")}.`);
+  }
+  return x as T;
+}
+
+function list(x: unknown, field: string, max: number): unknown[] {
+  if (!Array.isArray(x)) throw new InvalidThreadError(`"${field}" must be an array.`);
+  if (x.length > max) throw new InvalidThreadError(`"${field}" holds at most ${max} entries.`);
+  return x;
+}
+
+/** Drop the undefined optionals, so they don't end up as keys in the file. */
+function compact<T extends object>(o: T): T {
+  return Object.fromEntries(Object.entries(o).filter(([, v]) => v !== undefined)) as T;
+}
+
+function optional<T>(x: unknown, parse: (x: unknown) => T): T | undefined {
+  return x === undefined || x === null ? undefined : parse(x);
+}
+
+function pageRange(x: unknown, field: string): PageRange {
+  const [first, last] = list(x, field, 2);
+  return [count(first, field), count(last, field)];
+}
+
+function ocrPages(x: unknown): OcrPage[] {
+  return list(x, "ocr", 10_000).map((raw) => {
+    const p = record(raw, "ocr");
+    if (typeof p.confidence !== "number" || !Number.isFinite(p.confidence)) {
+      throw new InvalidThreadError('"ocr" confidence must be a number.');
+    }
+    return { page: count(p.page, "ocr page"), confidence: p.confidence, chars: count(p.chars, "ocr chars", 0) };
+  });
+}
+
+function answerError(x: unknown): NonNullable<AnswerVersion["error"]> {
+  const e = record(x, "error");
+  if (!isErrorCode(e.code)) throw new InvalidThreadError('"error" has an unknown code.');
+  return compact({
+    code: e.code,
+    details: text(e.details, "error details"),
+    retryAfter: optional(e.retryAfter, (n) => count(n, "retryAfter", 0)),
+  });
+}
+
+function answerVersion(x: unknown, fallbackTime?: unknown): AnswerVersion {
+  const v = record(x, "version");
+  const breakdown = optional(v.breakdown, (b) => {
+    const valid = validateBreakdown(b);
+    if (!valid) throw new InvalidThreadError('"breakdown" is not a valid breakdown.');
+    return valid;
+  });
+  return compact({
+    createdAt: time(v.createdAt ?? fallbackTime, "createdAt"),
+    output: text(v.output, "output"),
+    pages: optional(v.pages, (p) => pageRange(p, "pages")),
+    ocr: optional(v.ocr, ocrPages),
+    breakdown,
+    error: optional(v.error, answerError),
+    stopped: v.stopped === true ? true : undefined,
+    mode: optional(v.mode, (m) => oneOf(m, "mode", MODES)),
+    readingLevel: optional(v.readingLevel, (l) => oneOf(l, "readingLevel", READING_LEVELS)),
+  });
+}
+
+function range(x: unknown): Record<string, string> {
+  const r = record(x, "range");
+  const keys = Object.keys(r);
+  if (keys.length > 3) throw new InvalidThreadError('"range" has too many fields.');
+  return Object.fromEntries(keys.map((k) => [text(k, "range"), text(r[k], `range.${k}`)]));
+}
+
+function template(x: unknown) {
+  try {
+    return validateTemplate(x);
+  } catch (err) {
+    throw new InvalidThreadError(`"template": ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+/**
+ * Check a message from a client and keep its known fields. Assistant messages from
+ * older clients carry the answer's fields on the message (see migrateMessage).
+ */
+export function parseMessage(raw: unknown): ChatMessage {
+  if (!raw || typeof raw !== "object") throw new InvalidThreadError("A message must be an object.");
+  const m = raw as Record<string, unknown>;
+
+  if (typeof m.id !== "string" || !isThreadId(m.id)) throw new InvalidThreadError("Message id is missing or invalid.");
+  const id = m.id;
+  const createdAt = time(m.createdAt, "createdAt");
+
+  switch (m.role) {
+    case "user":
+      return compact({
+        role: "user" as const,
+        id,
+        createdAt,
+        fileName: text(m.fileName, "fileName"),
+        highlight: text(m.highlight, "highlight"),
+        page: optional(m.page, (p) => count(p, "page")),
+        mode: oneOf(m.mode, "mode", MODES),
+        readingLevel: oneOf(m.readingLevel, "readingLevel", READING_LEVELS),
+        language: optional(m.language, (l) => oneOf(l, "language", OUTPUT_LANGUAGE_CODES)),
+        scope: optional(m.scope, (s) => text(s, "scope")),
+        range: optional(m.range, range),
+        template: optional(m.template, template),
+      });
+    case "followup":
+      return { role: "followup", id, createdAt, question: text(m.question, "question") };
+    case "assistant": {
+      if (!Array.isArray(m.versions)) {
+        return { role: "assistant", id, createdAt, versions: [answerVersion(m, createdAt)], active: 0 };
+      }
+      const versions = list(m.versions, "versions", MAX_VERSIONS).map((v) => answerVersion(v));
+      if (versions.length === 0) throw new InvalidThreadError('"versions" must not be empty.');
+      const active = count(m.active, "active", 0);
+      if (active >= versions.length) throw new InvalidThreadError('"active" must be a version index.');
+      return { role: "assistant", id, createdAt, versions, active };
+    }
+    default:
+      throw new InvalidThreadError(`Unknown message role "${String(m.role)}".`);
+  }
+}
+
+export function parseThread(raw: unknown, id?: string): Thread {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new InvalidThreadError("The body must be a thread object.");
+  }
+  const t = raw as Record<string, unknown>;
+
+  const threadId = id ?? t.id;
+  if (typeof threadId !== "string" || !isThreadId(threadId)) throw new InvalidThreadError("Thread id is missing or invalid.");
+  if (id && t.id !== undefined && t.id !== id) throw new InvalidThreadError("Thread id does not match the URL.");
+
+  const messages = list(t.messages ?? [], "messages", MAX_MESSAGES);
+  const pdfHash = optional(t.pdfHash, (h) => {
+    if (typeof h !== "string" || !isDocId(h)) throw new InvalidThreadError('"pdfHash" must be a SHA-256 hex digest.');
+    return h;
+  });
+
+  const createdAt = t.createdAt === undefined ? Date.now() : time(t.createdAt, "createdAt");
+  return compact({
+    id: threadId,
+    createdAt,
+    updatedAt: t.updatedAt === undefined ? createdAt : time(t.updatedAt, "updatedAt"),
+    title: text(t.title, "title", true) || "New thread",
+    fileName: text(t.fileName, "fileName", true) || undefined,
+    pdfHash,
+    messages: messages.map(parseMessage),
+    cards: optional(t.cards, (c) => validateCards(list(c, "cards", MAX_STUDY_CARDS), CARD_KINDS)),
+  });
+}
+
+/**
+ * The JSON body of a thread request, or null when it isn't JSON. Bodies larger than
+ * MAX_THREAD_BYTES are refused as soon as that shows, before all of it is read.
+ */
+export async function readThreadBody(req: Request): Promise<unknown> {
+  const { maxThreadBytes } = limits();
+  const size =
+    maxThreadBytes >= 1024 * 1024
+      ? `${Math.round(maxThreadBytes / 1024 / 1024)} MB`
+      : `${Math.ceil(maxThreadBytes / 1024)} KB`;
+  const tooLarge = () => new InvalidThreadError(`A thread may be at most ${size}.`, 413);
+
+  const body = await readBody(req, maxThreadBytes, tooLarge);
+
+  try {
+    return JSON.parse(body.toString("utf8"));
+  } catch {
+    return null;
+  }
+}
+
+// ---- storage ----
+
+// Writes to one thread happen one at a time, so concurrent appends don't lose messages.
+const queues = new Map<string, Promise<unknown>>();
+
+function serialized<T>(id: string, task: () => Promise<T>): Promise<T> {
+  const run = (queues.get(id) ?? Promise.resolve()).then(task, task);
+  const settled = run.catch(() => {});
+  queues.set(id, settled);
+  void settled.then(() => {
+    if (queues.get(id) === settled) queues.delete(id);
+  });
+  return run;
+}
+
+async function write(thread: Thread) {
+  const file = threadPath(thread.id);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  // Write-then-rename, so a crash never leaves half a thread behind.
+  const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(thread));
+  await fs.rename(tmp, file);
+}
+
+async function read(id: string): Promise<Thread | null> {
+  try {
+    return migrateThread(JSON.parse(await fs.readFile(threadPath(id), "utf8")) as Thread);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw err;
+  }
+}
+
+export async function getThread(id: string): Promise<Thread> {
+  const thread = await read(id);
+  if (!thread) throw new ThreadNotFoundError(id);
+  return thread;
+}
+
+export async function listThreads(): Promise<ThreadSummary[]> {
+  const dir = threadsDir();
+  let names: string[];
+  try {
+    names = await fs.readdir(dir);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw err;
+  }
+
+  const summaries: ThreadSummary[] = [];
+  for (const name of names) {
+    if (!name.endsWith(".json")) continue;
+    const thread = await read(name.slice(0, -5)).catch(() => null);
+    if (!thread) continue;
+    summaries.push({
+      id: thread.id,
+      title: thread.title,
+      fileName: thread.fileName,
+      createdAt: thread.createdAt,
+      updatedAt: thread.updatedAt ?? thread.createdAt,
+      messages: thread.messages.length,
+    });
+  }
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/** Create a thread; fails if the id is taken. */
+export function createThread(raw: unknown): Promise<Thread> {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new InvalidThreadError("The body must be a thread object.");
+  }
+  const thread = parseThread({ id: crypto.randomUUID(), ...raw });
+  return serialized(thread.id, async () => {
+    if (await read(thread.id)) throw new InvalidThreadError(`Thread ${thread.id} already exists.`);
+    await write(thread);
+    return thread;
+  });
+}
+
+/** Create or replace a thread (what the client's sync uses). */
+export function putThread(id: string, raw: unknown): Promise<Thread> {
+  const thread = parseThread(raw, id);
+  return serialized(id, async () => {
+    await write(thread);
+    return thread;
+  });
+}
+
+/** Append a message, or replace the message with the same id (e.g. a finished answer). */
+export function appendMessage(id: string, raw: unknown): Promise<Thread> {
+  const message = parseMessage(raw);
+  return serialized(id, async () => {
+    const thread = await getThread(id);
+    const index = thread.messages.findIndex((m) => m.id === message.id);
+    if (index === -1 && thread.messages.length >= MAX_MESSAGES) {
+      throw new InvalidThreadError(`A thread holds at most ${MAX_MESSAGES} messages.`);
+    }
+    const messages = index === -1 ? [...thread.messages, message] : thread.messages.map((m, i) => (i === index ? message : m));
+    const updated = { ...thread, messages, updatedAt: Date.now() };
+    await write(updated);
+    return updated;
+  });
+}
+
+export function deleteThread(id: string): Promise<void> {
+  const file = threadPath(id);
+  return serialized(id, async () => {
+    try {
+      await fs.unlink(file);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") throw new ThreadNotFoundError(id);
+      throw err;
+    }
+  });
+}
@@ -0,0 +1,105 @@
+// lib/threads.ts
+//
+// Chat threads as the browser stores them (app/local-store.ts) and the server keeps
+// them (lib/thread-store.ts). Types and pure helpers only, so both sides can import them.
+import type { Breakdown } from "./breakdown";
+import type { ErrorCode } from "./errors";
+import type { Mode, ReadingLevel } from "./explain";
+import type { OcrPage } from "./extract/types";
+import type { OutputLanguage } from "./language";
+import type { PageRange } from "./pages";
+import type { StudyCard } from "./study";
+import type { TemplateInput } from "./templates";
+
+export type { Mode, ReadingLevel };
+
+/** One answer to a question. Regenerating adds another; earlier ones are kept. */
+export type AnswerVersion = {
+  createdAt: number;
+  output: string;
+  /** Pages the highlight was found on, when the server located it. */
+  pages?: PageRange;
+  /** Context pages whose text came from OCR. */
+  ocr?: OcrPage[];
+  /** Structured "breakdown" answer, shown as cards; `output` has the same in Markdown. */
+  breakdown?: Breakdown;
+  /** Set when the request failed; `output` then holds the error as text. */
+  error?: { code: ErrorCode; details: string; retryAfter?: number };
+  /** Stopped by the user; `output` is what had arrived by then. */
+  stopped?: boolean;
+  /** Regenerated with another mode or reading level than the question was asked with. */
+  mode?: Mode;
+  readingLevel?: ReadingLevel;
+};
+
+export type ChatMessage =
+  | {
+      role: "user";
+      id: string;
+      createdAt: number;
+      fileName: string;
+      highlight: string;
+      page?: number;
+      mode: Mode;
+      readingLevel: ReadingLevel;
+      /** Language the answer was asked for (English when absent). */
+      language?: OutputLanguage;
+      /** For "summarize" (which has no highlight): what was summarized. */
+      scope?: string;
+      /** ...and the section / page fields that picked it, so it can be asked again. */
+      range?: Record<string, string>;
+      /** For "custom": the template as it was when asked, so follow-ups use the same one. */
+      template?: TemplateInput;
+    }
+  | {
+      // A question about the thread's latest highlight, answered with the thread as history.
+      role: "followup";
+      id: string;
+      createdAt: number;
+      question: string;
+    }
+  | {
+      role: "assistant";
+      id: string;
+      createdAt: number;
+      /** Never empty; oldest first. */
+      versions: AnswerVersion[];
+      /** Index of the version shown (and used as history for follow-ups and exports). */
+      active: number;
+    };
+
+export type AssistantMessage = Extract<ChatMessage, { role: "assistant" }>;
+
+export type Thread = {
+  id: string;
+  createdAt: number;
+  /** Last change anywhere in the thread; the newer copy wins when syncing. */
+  updatedAt?: number;
+  title: string;
+  fileName?: string;
+  /** SHA-256 of the PDF (= its docId), so the browser can reattach it from storage. */
+  pdfHash?: string;
+  messages: ChatMessage[];
+  /** Review cards generated from the thread's highlights. */
+  cards?: StudyCard[];
+};
+
+export function activeVersion(m: AssistantMessage): AnswerVersion {
+  return m.versions[m.active] ?? m.versions[m.versions.length - 1];
+}
+
+/**
+ * Messages saved before answers had versions kept the single answer's fields on the
+ * message itself; anything else passes through unchanged.
+ */
+export function migrateMessage(m: ChatMessage): ChatMessage {
+  if (m.role !== "assistant" || Array.isArray(m.versions)) return m;
+  const { id, createdAt, output, pages, ocr, breakdown, error } = m as unknown as AnswerVersion & { id: string };
+  return { role: "assistant", id, createdAt, versions: [{ createdAt, output, pages, ocr, breakdown, error }], active: 0 };
+}
+
+export function migrateThread(t: Thread): Thread {
+  return t.messages.some((m) => m.role === "assistant" && !Array.isArray(m.versions))
+    ? { ...t, messages: t.messages.map(migrateMessage) }
+    : t;
+}
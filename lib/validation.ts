@@ -0,0 +1,86 @@
+// lib/validation.ts
+//
+// Request checking for the API routes: configurable limits and strict readers for form
+// fields. What they reject is an INVALID_REQUEST AppError (see lib/errors.ts).
+import { AppError } from "./errors";
+
+function envInt(name: string, fallback: number) {
+  const raw = process.env[name]?.trim();
+  const n = Number(raw);
+  return raw && Number.isInteger(n) && n >= 0 ? n : fallback;
+}
+
+/**
+ * Limits, read on each call so a changed env applies without a rebuild. MAX_PDF_BYTES
+ * and MAX_PDF_PAGES bound uploads, MAX_HIGHLIGHT_CHARS bounds highlights and questions,
+ * RATE_LIMIT_PER_MINUTE bounds LLM requests and uploads per client, MAX_THREAD_BYTES
+ * the threads clients store. 0 turns a limit off.
+ */
+export function limits() {
+  return {
+    maxPdfBytes: envInt("MAX_PDF_BYTES", 50 * 1024 * 1024),
+    maxPdfPages: envInt("MAX_PDF_PAGES", 500),
+    maxHighlightChars: envInt("MAX_HIGHLIGHT_CHARS", 4000),
+    rateLimitPerMinute: envInt("RATE_LIMIT_PER_MINUTE", 30),
+    maxThreadBytes: envInt("MAX_THREAD_BYTES", 10 * 1024 * 1024),
+  };
+}
+
+/** A text field; files and over-long values are rejected rather than truncated. */
+export function textField(form: FormData, name: string, opts: { max?: number; required?: boolean } = {}) {
+  const value = form.get(name);
+  if (value === null || value === "") {
+    if (opts.required) throw new AppError("INVALID_REQUEST", `Missing "${name}".`);
+    return "";
+  }
+  if (typeof value !== "string") throw new AppError("INVALID_REQUEST", `"${name}" must be text, not a file.`);
+  if (opts.max !== undefined && value.length > opts.max) {
+    throw new AppError("INVALID_REQUEST", `"${name}" is longer than ${opts.max} characters.`);
+  }
+  return value;
+}
+
+/** One of `allowed`, or `fallback` when the field is absent. */
+export function enumField<T extends string>(form: FormData, name: string, allowed: readonly T[], fallback: T): T {
+  const value = textField(form, name);
+  if (!value) return fallback;
+  if (!(allowed as readonly string[]).includes(value)) {
+    throw new AppError("INVALID_REQUEST", `"${name}" must be one of ${allowed.join(", ")} (got "${value}").`);
+  }
+  return value as T;
+}
+
+/** A whole number ≥ `min`, or null when the field is absent. */
+export function intField(form: FormData, name: string, min = 0): number | null {
+  const value = textField(form, name);
+  if (!value) return null;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < min) {
+    throw new AppError("INVALID_REQUEST", `"${name}" must be a whole number of at least ${min}.`);
+  }
+  return n;
+}
+
+/**
+ * The raw request body, refused with `tooLarge()` once it passes `maxBytes` — by its
+ * Content-Length up front, else as soon as the stream shows it, before all of it is read.
+ */
+export async function readBody(req: Request, maxBytes: number, tooLarge: () => AppError): Promise<Buffer<ArrayBuffer>> {
+  if (maxBytes > 0 && Number(req.headers.get("content-length")) > maxBytes) throw tooLarge();
+  if (!req.body) return Buffer.alloc(0);
+
+  const chunks: Uint8Array[] = [];
+  let bytes = 0;
+  const reader = req.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytes += value.length;
+    if (maxBytes > 0 && bytes > maxBytes) {
+      await reader.cancel().catch(() => {});
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Load pdf.js from node_modules at runtime so its fake worker can resolve itself.
+  serverExternalPackages: ["pdfjs-dist"],
 };
 
 export default nextConfig;
@@ -0,0 +1,96 @@
+// test/documents.test.ts
+import { afterEach, describe, expect, it } from "vitest";
+import { POST as uploadRoute } from "@/app/api/documents/route";
+import { post, sampleDocId } from "./helpers";
+
+afterEach(() => {
+  delete process.env.MAX_PDF_BYTES;
+  process.env.RATE_LIMIT_PER_MINUTE = "0";
+});
+
+function pdfForm(bytes: number) {
+  const form = new FormData();
+  form.append("pdf", new File([new Uint8Array(bytes)], "big.pdf", { type: "application/pdf" }));
+  return form;
+}
+
+describe("POST /api/documents", () => {
+  it("uploads the sample PDF", async () => {
+    expect(await sampleDocId()).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it("refuses a body whose Content-Length is over the limit without reading it", async () => {
+    process.env.MAX_PDF_BYTES = "1024";
+    let pulled = false;
+    const body = new ReadableStream(
+      {
+        pull() {
+          pulled = true;
+        },
+      },
+      { highWaterMark: 0 }
+    );
+    const req = new Request("http://localhost/api/documents", {
+      method: "POST",
+      headers: { "Content-Type": "multipart/form-data; boundary=x", "Content-Length": String(10 * 1024 * 1024) },
+      body,
+      duplex: "half",
+    } as RequestInit);
+
+    const res = await uploadRoute(req);
+
+    expect(res.status).toBe(413);
+    expect((await res.json()).code).toBe("PAYLOAD_TOO_LARGE");
+    expect(pulled).toBe(false);
+  });
+
+  it("stops reading a streamed body once it passes the limit", async () => {
+    process.env.MAX_PDF_BYTES = "1024";
+    let sent = 0;
+    const chunk = new Uint8Array(16 * 1024);
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        sent += chunk.length;
+        if (sent > 10 * 1024 * 1024) controller.close();
+        else controller.enqueue(chunk);
+      },
+    });
+    const req = new Request("http://localhost/api/documents", {
+      method: "POST",
+      headers: { "Content-Type": "multipart/form-data; boundary=x" },
+      body,
+      duplex: "half",
+    } as RequestInit);
+
+    const res = await uploadRoute(req);
+
+    expect(res.status).toBe(413);
+    expect(sent).toBeLessThan(1024 * 1024);
+  });
+
+  it("refuses a PDF over the limit that fits in the form overhead", async () => {
+    process.env.MAX_PDF_BYTES = String(100 * 1024);
+
+    const res = await uploadRoute(post("/api/documents", pdfForm(120 * 1024)));
+
+    expect(res.status).toBe(413);
+    expect((await res.json()).details).toMatch(/^The PDF is .+; the limit is /);
+  });
+
+  it("limits uploads per client", async () => {
+    process.env.RATE_LIMIT_PER_MINUTE = "2";
+    const upload = () => {
+      const req = post("/api/documents", pdfForm(16));
+      req.headers.set("x-forwarded-for", "203.0.113.7");
+      return uploadRoute(req);
+    };
+
+    expect((await upload()).status).toBe(400);
+    expect((await upload()).status).toBe(400);
+    const res = await upload();
+
+    expect(res.status).toBe(429);
+    expect((await res.json()).code).toBe("RATE_LIMITED");
+    expect(Number(res.headers.get("Retry-After"))).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,47 @@
+// test/explain.test.ts
+import { describe, expect, it } from "vitest";
+import { POST } from "@/app/api/explain/route";
+import { MOCK_BREAKDOWN } from "@/lib/llm/mock";
+import { post, sampleDocId, sseEvents } from "./helpers";
+
+async function explain(fields: Record<string, string>) {
+  return POST(post("/api/explain", { provider: "mock", docId: await sampleDocId(), ...fields }));
+}
+
+describe("/api/explain with the mock provider", () => {
+  it("answers with the prompt, grounded in the page the highlight is on", async () => {
+    const res = await explain({ highlight: "Sampling", mode: "quick" });
+    const data = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(data.output).toMatch(/^MOCK AI OUTPUT/);
+    expect(data.output).toContain("Sampling");
+    expect(data.pages.match).toEqual([2, 2]);
+    expect(data.debug.llm).toEqual({ provider: "mock", model: "mock-echo" });
+  });
+
+  it("returns breakdowns as validated JSON", async () => {
+    const data = await (await explain({ highlight: "Introduction", mode: "breakdown" })).json();
+
+    expect(data.breakdown).toMatchObject({ claim: MOCK_BREAKDOWN.claim, pages: [1] });
+    expect(data.output).toContain(MOCK_BREAKDOWN.claim);
+  });
+
+  it("streams stages, deltas and the result", async () => {
+    const events = await sseEvents(await explain({ highlight: "Sampling", mode: "quick", stream: "1" }));
+    const names = events.map((e) => e.event);
+
+    expect(names[0]).toBe("stage");
+    expect(names).toContain("delta");
+    expect(names[names.length - 1]).toBe("done");
+    const text = events.filter((e) => e.event === "delta").map((e) => (e.data as { text: string }).text);
+    expect(text.join("")).toBe((events[events.length - 1].data as { output: string }).output);
+  });
+
+  it("reports a highlight that isn't in the PDF", async () => {
+    const res = await explain({ highlight: "nowhere in this document at all", mode: "quick" });
+
+    expect(res.status).toBe(422);
+    expect((await res.json()).code).toBe("HIGHLIGHT_NOT_FOUND");
+  });
+});
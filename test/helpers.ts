@@ -0,0 +1,42 @@
+// test/helpers.ts
+//
+// Requests against the route handlers themselves, with the sample PDF uploaded once.
+import fs from "fs/promises";
+import path from "path";
+import { POST as uploadRoute } from "@/app/api/documents/route";
+
+let docId: Promise<string> | null = null;
+
+/** Upload test/fixtures/sample.pdf ("1 Introduction", "2 Methods") and return its id. */
+export function sampleDocId() {
+  docId ??= (async () => {
+    const bytes = await fs.readFile(path.join(__dirname, "fixtures", "sample.pdf"));
+    const form = new FormData();
+    form.append("pdf", new File([bytes], "sample.pdf", { type: "application/pdf" }));
+    const res = await uploadRoute(post("/api/documents", form));
+    const data = await res.json();
+    if (!res.ok) throw new Error(`Upload failed: ${JSON.stringify(data)}`);
+    return data.docId as string;
+  })();
+  return docId;
+}
+
+export function post(route: string, body: FormData | Record<string, string>) {
+  let form = body;
+  if (!(body instanceof FormData)) {
+    form = new FormData();
+    for (const [k, v] of Object.entries(body)) form.append(k, v);
+  }
+  return new Request(`http://localhost${route}`, { method: "POST", body: form as FormData });
+}
+
+/** The events of an SSE response, in order. */
+export async function sseEvents(res: Response) {
+  const events: Array<{ event: string; data: unknown }> = [];
+  for (const block of (await res.text()).split("\n\n")) {
+    const event = /^event: (.+)$/m.exec(block)?.[1];
+    const data = /^data: (.+)$/m.exec(block)?.[1];
+    if (event && data) events.push({ event, data: JSON.parse(data) });
+  }
+  return events;
+}
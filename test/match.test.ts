@@ -0,0 +1,95 @@
+// test/match.test.ts
+import { describe, expect, it } from "vitest";
+import { findHighlight, normalizeForMatch } from "@/lib/match";
+
+/** The span of `from` … `to` (inclusive) in `text`. */
+function span(text: string, from: string, to: string) {
+  const start = text.indexOf(from);
+  return { start, end: text.indexOf(to, start) + to.length };
+}
+
+describe("normalizeForMatch", () => {
+  it("maps every normalized character back to its offset in the original", () => {
+    const { norm, map } = normalizeForMatch("  ﬁrst   stu-\n  dy’s");
+
+    expect(norm).toBe("first study's");
+    expect(map).toEqual([2, 2, 3, 4, 5, 6, 9, 10, 11, 16, 17, 18, 19]);
+  });
+
+  it("keeps a line-end hyphen before a capital, which starts a new word", () => {
+    expect(normalizeForMatch("the Hartree-\n    Fock method").norm).toBe("the hartree- fock method");
+  });
+});
+
+describe("findHighlight", () => {
+  it("joins words hyphenated across a line break", () => {
+    const text = "Patients in the treat-\n    ment group improved.";
+
+    expect(findHighlight(text, "the treatment group")).toEqual({ ...span(text, "the", "group"), score: 1 });
+  });
+
+  it("folds ligatures with NFKC", () => {
+    const text = "An eﬃcient ﬁlter.";
+
+    expect(findHighlight(text, "efficient filter")).toEqual({ ...span(text, "eﬃ", "lter"), score: 1 });
+  });
+
+  it("folds smart quotes and dashes", () => {
+    const text = "He called it “the model’s” core — twice.";
+
+    expect(findHighlight(text, "\"the model's\" core - twice")).toEqual({
+      ...span(text, "“", "twice"),
+      score: 1,
+    });
+  });
+
+  it("ignores column padding and blank lines", () => {
+    const text = "Results        were\n\n\n      significant    (p < 0.05).";
+
+    expect(findHighlight(text, "Results were significant (p < 0.05)")).toEqual({
+      ...span(text, "Results", ")"),
+      score: 1,
+    });
+  });
+
+  it("returns offsets into the original text, not the normalized one", () => {
+    const text = "ﬁ  ﬂ  the ﬁnal ﬂow rate";
+    const match = findHighlight(text, "final flow");
+
+    expect(match).toEqual({ ...span(text, "ﬁnal", "ow"), score: 1 });
+    expect(text.slice(match!.start, match!.end)).toBe("ﬁnal ﬂow");
+  });
+
+  it("scores a near miss by its edits", () => {
+    const text = "The quick brown fox jumps over the lazy dog.";
+
+    expect(findHighlight(text, "quick brwn fox")).toEqual({ ...span(text, "quick", "fox"), score: 1 - 1 / 14 });
+  });
+
+  it("gives up below the score threshold", () => {
+    const text = "The quick brown fox jumps over the lazy dog.";
+
+    expect(findHighlight(text, "quick purple cat")).toBeNull();
+    expect(findHighlight(text, "   ")).toBeNull();
+  });
+
+  describe("long highlights", () => {
+    const sentence = Array.from({ length: 80 }, (_, i) => `term${i}`).join(" ");
+    const text = `Intro line.\n${sentence}\nOutro.`;
+    const start = text.indexOf("term0");
+
+    it("match by head and tail, so a difference in the middle doesn't count", () => {
+      expect(findHighlight(text, sentence.replace("term40", "tern40"))).toEqual({
+        start,
+        end: start + sentence.length,
+        score: 1,
+      });
+    });
+
+    it("score the edits in the head and tail", () => {
+      const highlight = sentence.replace("term79", "terx79");
+
+      expect(findHighlight(text, highlight)).toEqual({ start, end: start + sentence.length, score: 1 - 1 / 480 });
+    });
+  });
+});
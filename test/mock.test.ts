@@ -0,0 +1,47 @@
+// test/mock.test.ts
+import { describe, expect, it } from "vitest";
+import { BREAKDOWN_INSTRUCTIONS } from "@/lib/breakdown";
+import { createMockProvider, MOCK_BREAKDOWN, MOCK_CARDS } from "@/lib/llm/mock";
+import type { CompletionRequest } from "@/lib/llm/types";
+
+async function complete(req: CompletionRequest) {
+  let text = "";
+  for await (const piece of createMockProvider().stream(req)) text += piece;
+  return text;
+}
+
+describe("mock provider", () => {
+  it("echoes the conversation, without the system prompt", async () => {
+    const text = await complete({
+      messages: [
+        { role: "system", content: "Be brief." },
+        { role: "user", content: "What is a p-value?" },
+      ],
+    });
+
+    expect(text).toBe("MOCK AI OUTPUT (no LLM called)\n\nUSER:\nWhat is a p-value?");
+  });
+
+  it("answers a breakdown prompt with a breakdown", async () => {
+    const text = await complete({ messages: [{ role: "user", content: BREAKDOWN_INSTRUCTIONS }], json: true });
+
+    expect(JSON.parse(text)).toEqual(MOCK_BREAKDOWN);
+  });
+
+  it("answers a prompt for cards with cards", async () => {
+    const text = await complete({
+      messages: [{ role: "system", content: 'Reply with ONE JSON object only, no prose: {"cards": [...]}' }],
+      json: true,
+    });
+
+    expect(JSON.parse(text)).toEqual(MOCK_CARDS);
+  });
+
+  it("stops when the request is cancelled", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const request = complete({ messages: [{ role: "user", content: "Hi" }], signal: controller.signal });
+
+    await expect(request).rejects.toThrow();
+  });
+});
@@ -0,0 +1,72 @@
+// test/process.test.ts
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterEach, describe, expect, it } from "vitest";
+import { runPdftotext } from "@/lib/extract/poppler";
+import { describeFailure, runProcess } from "@/lib/extract/process";
+
+afterEach(() => {
+  delete process.env.PROCESS_CONCURRENCY;
+});
+
+describe("runProcess", () => {
+  it("returns what the process printed and its exit code", async () => {
+    const result = await runProcess("sh", ["-c", "echo out; echo err >&2; exit 3"]);
+
+    expect(result).toMatchObject({ code: 3, stdout: "out\n", stderr: "err\n" });
+    expect(describeFailure(result)).toBe("exit code 3: err");
+  });
+
+  it("kills a process that runs past its timeout", async () => {
+    const started = Date.now();
+    const result = await runProcess("sleep", ["10"], { timeoutMs: 200 });
+
+    expect(result).toMatchObject({ code: null, killed: "timeout" });
+    expect(Date.now() - started).toBeLessThan(5000);
+    expect(describeFailure(result)).toBe("timed out after 0.2 s");
+  });
+
+  it("kills a process that prints more than its cap, and keeps no more than that", async () => {
+    const result = await runProcess("yes", [], { maxOutputBytes: 64 * 1024 });
+
+    expect(result).toMatchObject({ code: null, killed: "output" });
+    expect(result.stdout.length).toBeLessThanOrEqual(64 * 1024);
+    expect(describeFailure(result)).toBe("printed more than 64 KB");
+  });
+
+  it("kills the whole process group, so a child holding the pipes can't keep it alive", async () => {
+    const started = Date.now();
+    const result = await runProcess("sh", ["-c", "sleep 10 & wait"], { timeoutMs: 200 });
+
+    expect(result.killed).toBe("timeout");
+    expect(Date.now() - started).toBeLessThan(5000);
+  });
+
+  it("runs at most PROCESS_CONCURRENCY at once; the rest wait their turn", async () => {
+    process.env.PROCESS_CONCURRENCY = "1";
+    const stamp = ["-c", "date +%s%N; sleep 0.3; date +%s%N"];
+
+    const runs = await Promise.all([runProcess("sh", stamp), runProcess("sh", stamp), runProcess("sh", stamp)]);
+    const spans = runs.map((r) => r.stdout.trim().split("\n").map(Number)).sort((a, b) => a[0] - b[0]);
+
+    for (let i = 1; i < spans.length; i++) expect(spans[i][0]).toBeGreaterThanOrEqual(spans[i - 1][1]);
+  });
+});
+
+describe("runPdftotext", () => {
+  it("removes its temporary directory when the run fails", async () => {
+    const tmp = await fs.mkdtemp(path.join(os.tmpdir(), "process-test-"));
+    const saved = process.env.TMPDIR;
+    process.env.TMPDIR = tmp;
+    try {
+      // Either pdftotext isn't installed or it rejects this; both are failed runs.
+      await expect(runPdftotext(Buffer.from("not a pdf"))).rejects.toThrow(/pdftotext failed/);
+      expect(await fs.readdir(tmp)).toEqual([]);
+    } finally {
+      if (saved === undefined) delete process.env.TMPDIR;
+      else process.env.TMPDIR = saved;
+      await fs.rm(tmp, { recursive: true, force: true });
+    }
+  });
+});
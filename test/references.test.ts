@@ -0,0 +1,37 @@
+// test/references.test.ts
+import { describe, expect, it } from "vitest";
+import { resolveReferences } from "@/lib/references";
+
+function resolve(text: string, source: string) {
+  return resolveReferences({ text, pageStarts: [0, ...[...text.matchAll(/\f/g)].map((m) => m.index + 1)] }, [source]);
+}
+
+describe("equation references", () => {
+  it("finds the line that ends with the number, not the prose that cites it", () => {
+    const text = "As Eq. (4) shows, it holds.\n\n    a = b + c\n    E = mc^2        (4)  \n\nMore text.";
+    const [ref] = resolve(text, "see Eq. (4)");
+
+    expect(ref).toMatchObject({ kind: "equation", key: "4", found: true, page: 1 });
+    expect(ref.text).toBe("a = b + c\n    E = mc^2        (4)");
+    expect(text.slice(ref.start, ref.end).endsWith("(4)")).toBe(true);
+  });
+
+  it("skips a bare number with nothing before it", () => {
+    expect(resolve("(4)\nplain text", "Eq. (4)")[0].found).toBe(false);
+  });
+
+  it("reports the page of the numbered line, without the page before", () => {
+    const text = "page one\nstill one\f  x = 1   (2)\n";
+    const [ref] = resolve(text, "Eq. (2)");
+
+    expect(ref).toMatchObject({ found: true, page: 2, text: "x = 1   (2)" });
+  });
+
+  it("stays linear on long lines that almost match", () => {
+    const text = `${"x (4) y ".repeat(2_000)}\n`.repeat(5);
+    const started = performance.now();
+
+    expect(resolve(text, "Eq. (4)")[0].found).toBe(false);
+    expect(performance.now() - started).toBeLessThan(1000);
+  });
+});
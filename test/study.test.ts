@@ -0,0 +1,92 @@
+// test/study.test.ts
+import { describe, expect, it } from "vitest";
+import { POST } from "@/app/api/study/route";
+import { MOCK_CARDS } from "@/lib/llm/mock";
+import { parseStudyItems, validateCards } from "@/lib/study";
+import { cardText, toAnki } from "@/lib/study-export";
+import { post, sampleDocId } from "./helpers";
+
+async function study(fields: Record<string, string>) {
+  return POST(
+    post("/api/study", {
+      provider: "mock",
+      docId: await sampleDocId(),
+      items: JSON.stringify([{ highlight: "Sampling", page: 2 }]),
+      ...fields,
+    })
+  );
+}
+
+describe("/api/study with the mock provider", () => {
+  it("returns the cards of the requested kinds", async () => {
+    const res = await study({ kinds: "mcq,qa", count: "5" });
+    const data = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(data.cards.map((c: { kind: string }) => c.kind)).toEqual(["mcq", "qa"]);
+    expect(data.cards[0]).toMatchObject({ answer: 0, choices: ["mock", "openai", "local"] });
+  });
+});
+
+describe("validateCards", () => {
+  it("keeps well-formed cards of the requested kinds, wrapped or not", () => {
+    expect(validateCards(MOCK_CARDS, ["mcq", "cloze", "qa"])).toHaveLength(3);
+    expect(validateCards(MOCK_CARDS.cards, ["cloze"]).map((c) => c.kind)).toEqual(["cloze"]);
+  });
+
+  it.each([
+    ["an mcq whose answer isn't a choice", { kind: "mcq", question: "Q?", choices: ["a", "b"], answer: 2 }],
+    ["an mcq with one choice", { kind: "mcq", question: "Q?", choices: ["a"], answer: 0 }],
+    ["a cloze without a deletion", { kind: "cloze", text: "No blanks here." }],
+    ["a qa without an answer", { kind: "qa", question: "Q?", answer: " " }],
+    ["an unknown kind", { kind: "essay", question: "Q?" }],
+  ])("drops %s", (_what, card) => {
+    expect(validateCards([card], ["mcq", "cloze", "qa"])).toEqual([]);
+  });
+});
+
+describe("parseStudyItems", () => {
+  it("keeps usable highlights and drops the rest", () => {
+    const raw = JSON.stringify([
+      { highlight: "  A  ", page: 2 },
+      { highlight: " " },
+      { page: 3 },
+      { highlight: "B", page: -1 },
+    ]);
+
+    expect(parseStudyItems(raw)).toEqual([
+      { highlight: "A", page: 2, explanation: undefined },
+      { highlight: "B", page: undefined, explanation: undefined },
+    ]);
+    expect(parseStudyItems("not json")).toEqual([]);
+  });
+});
+
+describe("card exports", () => {
+  const cards = validateCards(MOCK_CARDS, ["mcq", "cloze", "qa"]);
+
+  it("hides cloze deletions on the front and shows them on the back", () => {
+    expect(cardText(cards[1])).toEqual({
+      front: "This card comes from the […] provider.",
+      back: "This card comes from the **mock** provider.",
+    });
+  });
+
+  it("writes Anki CSV with import headers, one note per card", () => {
+    const lines = toAnki(cards, "csv", ["my deck"]).trimEnd().split("\n");
+
+    expect(lines.slice(0, 4)).toEqual(["#separator:comma", "#html:true", "#notetype column:1", "#tags column:4"]);
+    expect(lines[4]).toBe(
+      "Basic,Which provider wrote this card?<br><br>A. mock<br>B. openai<br>C. local," +
+        "A. mock<br><br>No LLM was called.<br><br><small>p. 1</small>,my_deck"
+    );
+    expect(lines[5]).toBe("Cloze,This card comes from the {{c1::mock}} provider.,<small>p. 1</small>,my_deck");
+    expect(lines).toHaveLength(7);
+  });
+
+  it("quotes fields that hold the separator", () => {
+    const [qa] = validateCards([{ kind: "qa", question: "A, B or C?", answer: 'Say "B".' }], ["qa"]);
+
+    expect(toAnki([qa], "csv").trimEnd().split("\n")[4]).toBe('Basic,"A, B or C?","Say ""B"".",');
+  });
+});
@@ -0,0 +1,32 @@
+// test/summarize.test.ts
+import { describe, expect, it } from "vitest";
+import { POST } from "@/app/api/explain/route";
+import { post, sampleDocId } from "./helpers";
+
+async function summarize(fields: Record<string, string>) {
+  return POST(post("/api/explain", { provider: "mock", docId: await sampleDocId(), mode: "summarize", ...fields }));
+}
+
+describe("summarize mode", () => {
+  it("summarizes the outline section at the given index", async () => {
+    const data = await (await summarize({ section: "1" })).json();
+
+    expect(data.section).toContain("2 Methods");
+    expect(data.pages.context).toEqual([2, 2]);
+    expect(data.output).toMatch(/^MOCK AI OUTPUT/);
+  });
+
+  it("summarizes the whole document without a highlight or section", async () => {
+    const res = await summarize({});
+
+    expect(res.status).toBe(200);
+    expect((await res.json()).output).toContain("Sampling");
+  });
+
+  it("rejects a section the outline doesn't have", async () => {
+    const res = await summarize({ section: "99" });
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).code).toBe("INVALID_REQUEST");
+  });
+});
@@ -0,0 +1,146 @@
+// test/threads.test.ts
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { GET as listRoute, POST as createRoute } from "@/app/api/threads/route";
+import { parseMessage, parseThread, readThreadBody } from "@/lib/thread-store";
+
+let dir = "";
+
+beforeAll(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "threads-test-"));
+  process.env.THREADS_DIR = dir;
+  delete process.env.THREADS_STORAGE;
+});
+
+afterAll(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+afterEach(() => {
+  delete process.env.MAX_THREAD_BYTES;
+});
+
+function postJson(body: string) {
+  return createRoute(
+    new Request("http://localhost/api/threads", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body,
+    })
+  );
+}
+
+describe("POST /api/threads", () => {
+  it.each([
+    ["not JSON", "not json"],
+    ["empty", ""],
+    ["an array", "[]"],
+    ["a string", '"thread"'],
+  ])("rejects a body that is %s, and stores nothing", async (_what, body) => {
+    const res = await postJson(body);
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).code).toBe("INVALID_THREAD");
+    expect(await fs.readdir(dir)).toEqual([]);
+  });
+
+  it("creates a thread from an object", async () => {
+    const res = await postJson(JSON.stringify({ title: "Chapter 1", createdAt: 1 }));
+    const { thread } = await res.json();
+
+    expect(res.status).toBe(201);
+    expect(thread).toMatchObject({ title: "Chapter 1", messages: [] });
+    const list = await (await listRoute()).json();
+    expect(list.threads.map((t: { id: string }) => t.id)).toEqual([thread.id]);
+  });
+});
+
+const user = {
+  role: "user",
+  id: "m1",
+  createdAt: 1,
+  fileName: "paper.pdf",
+  highlight: "the treatment group",
+  mode: "quick",
+  readingLevel: "college",
+};
+
+describe("parseMessage", () => {
+  it("keeps the known fields and drops the rest", () => {
+    expect(parseMessage({ ...user, page: 3, secret: "x", html: "<b>" })).toEqual({ ...user, page: 3 });
+  });
+
+  it.each([
+    ["a bad mode", { ...user, mode: "shout" }, /"mode" must be one of/],
+    ["a bad language", { ...user, language: "xx" }, /"language" must be one of/],
+    ["no id", { ...user, id: undefined }, /id is missing/],
+    ["an unknown role", { ...user, role: "system" }, /Unknown message role/],
+  ])("rejects %s", (_what, raw, message) => {
+    expect(() => parseMessage(raw)).toThrow(message);
+  });
+
+  it("moves the answer of a legacy assistant message into its first version", () => {
+    const legacy = { role: "assistant", id: "a1", createdAt: 5, output: "An answer.", pages: [2, 3], mode: "quick" };
+
+    expect(parseMessage(legacy)).toEqual({
+      role: "assistant",
+      id: "a1",
+      createdAt: 5,
+      versions: [{ createdAt: 5, output: "An answer.", pages: [2, 3], mode: "quick" }],
+      active: 0,
+    });
+  });
+
+  it.each([
+    ["past the last version", 1],
+    ["negative", -1],
+    ["not a whole number", 0.5],
+  ])("rejects an active version index %s", (_what, active) => {
+    const raw = { role: "assistant", id: "a1", createdAt: 5, versions: [{ createdAt: 5, output: "A." }], active };
+
+    expect(() => parseMessage(raw)).toThrow(/"active"/);
+  });
+});
+
+describe("parseThread", () => {
+  it("keeps the known fields and drops the rest", () => {
+    const thread = parseThread({ id: "t1", createdAt: 1, title: "T", owner: "someone", messages: [{ ...user, x: 1 }] });
+
+    expect(thread).toEqual({ id: "t1", createdAt: 1, updatedAt: 1, title: "T", messages: [user] });
+  });
+
+  it("rejects an id that doesn't match the URL", () => {
+    expect(() => parseThread({ id: "t1" }, "t2")).toThrow(/does not match/);
+  });
+});
+
+describe("readThreadBody", () => {
+  function request(body: string, headers: Record<string, string> = {}) {
+    return new Request("http://localhost/api/threads", { method: "POST", headers, body });
+  }
+
+  it("reads JSON, or null when it isn't", async () => {
+    expect(await readThreadBody(request('{"title":"T"}'))).toEqual({ title: "T" });
+    expect(await readThreadBody(request("{"))).toBeNull();
+  });
+
+  it("refuses a body over MAX_THREAD_BYTES with 413", async () => {
+    process.env.MAX_THREAD_BYTES = "1024";
+    const body = JSON.stringify({ title: "x".repeat(2000) });
+
+    await expect(readThreadBody(request(body))).rejects.toMatchObject({ code: "INVALID_THREAD", status: 413 });
+  });
+
+  it("answers 413 from the route without storing anything", async () => {
+    process.env.MAX_THREAD_BYTES = "1024";
+    const before = await fs.readdir(dir);
+
+    const res = await postJson(JSON.stringify({ title: "x".repeat(2000) }));
+
+    expect(res.status).toBe(413);
+    expect((await res.json()).details).toBe("A thread may be at most 1 KB.");
+    expect(await fs.readdir(dir)).toEqual(before);
+  });
+});
@@ -0,0 +1,91 @@
+// test/validation.test.ts
+import { afterEach, describe, expect, it } from "vitest";
+import { POST as explainRoute } from "@/app/api/explain/route";
+import { POST as studyRoute } from "@/app/api/study/route";
+import { post, sampleDocId } from "./helpers";
+
+afterEach(() => {
+  process.env.RATE_LIMIT_PER_MINUTE = "0";
+});
+
+async function explain(fields: Record<string, string>) {
+  return explainRoute(post("/api/explain", { provider: "mock", docId: await sampleDocId(), ...fields }));
+}
+
+async function study(fields: Record<string, string>) {
+  return studyRoute(
+    post("/api/study", {
+      provider: "mock",
+      docId: await sampleDocId(),
+      items: JSON.stringify([{ highlight: "Sampling", page: 2 }]),
+      ...fields,
+    })
+  );
+}
+
+describe("/api/explain request checks", () => {
+  it.each([
+    ["mode", { highlight: "Sampling", mode: "shout" }],
+    ["readingLevel", { highlight: "Sampling", readingLevel: "phd" }],
+    ["language", { highlight: "Sampling", language: "xx" }],
+    ["page", { highlight: "Sampling", page: "0" }],
+    ["highlight", { highlight: "   " }],
+    ["docId", { highlight: "Sampling", docId: "../etc/passwd" }],
+  ])("rejects a bad %s", async (_field, fields) => {
+    const res = await explain(fields);
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).code).toBe("INVALID_REQUEST");
+  });
+
+  it("rejects highlights over the length limit", async () => {
+    const res = await explain({ highlight: "a".repeat(5000) });
+
+    expect(res.status).toBe(413);
+    expect((await res.json()).code).toBe("HIGHLIGHT_TOO_LONG");
+  });
+
+  it("limits requests per client", async () => {
+    process.env.RATE_LIMIT_PER_MINUTE = "1";
+    const request = async () => {
+      const req = post("/api/explain", { provider: "mock", docId: await sampleDocId(), highlight: "Sampling" });
+      req.headers.set("x-forwarded-for", "198.51.100.4");
+      return explainRoute(req);
+    };
+
+    expect((await request()).status).toBe(200);
+    const res = await request();
+
+    expect(res.status).toBe(429);
+    expect((await res.json()).code).toBe("RATE_LIMITED");
+    expect(Number(res.headers.get("Retry-After"))).toBeGreaterThan(0);
+  });
+});
+
+describe("/api/study request checks", () => {
+  it.each([
+    ["count", { count: "lots" }],
+    ["count", { count: "99" }],
+    ["kinds", { kinds: "mcq,essay" }],
+    ["language", { language: "xx" }],
+  ])("rejects a bad %s", async (_field, fields) => {
+    const res = await study(fields);
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).code).toBe("INVALID_REQUEST");
+  });
+
+  it("rejects a body that isn't multipart", async () => {
+    const res = await studyRoute(new Request("http://localhost/api/study", { method: "POST", body: "{}" }));
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).code).toBe("INVALID_REQUEST");
+  });
+
+  it("rejects highlights over the length limit", async () => {
+    const res = await study({ items: JSON.stringify([{ highlight: "a".repeat(5000) }]) });
+
+    expect(res.status).toBe(413);
+    expect((await res.json()).code).toBe("HIGHLIGHT_TOO_LONG");
+  });
+});
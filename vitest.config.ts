@@ -0,0 +1,20 @@
+import path from "path";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": path.resolve(__dirname) },
+  },
+  test: {
+    include: ["test/**/*.test.ts"],
+    environment: "node",
+    // pdf.js on the first upload can take a few seconds on a slow machine.
+    testTimeout: 30_000,
+    env: {
+      PDF_EXTRACTOR: "pdfjs",
+      OCR_MAX_PAGES: "0",
+      THREADS_STORAGE: "off",
+      RATE_LIMIT_PER_MINUTE: "0",
+    },
+  },
+});